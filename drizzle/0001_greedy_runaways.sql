@@ -0,0 +1,2 @@
+ALTER TABLE "doctors" ADD COLUMN "appointment_duration_in_minutes" integer DEFAULT 30 NOT NULL;--> statement-breakpoint
+ALTER TABLE "doctors" ADD COLUMN "appointment_buffer_in_minutes" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "appointment_reschedules" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"appointment_id" uuid NOT NULL,
+	"previous_date" timestamp NOT NULL,
+	"new_date" timestamp NOT NULL,
+	"reason" text NOT NULL,
+	"rescheduled_by_user_id" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "appointment_reschedules" ADD CONSTRAINT "appointment_reschedules_appointment_id_appointments_id_fk" FOREIGN KEY ("appointment_id") REFERENCES "public"."appointments"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "appointment_reschedules" ADD CONSTRAINT "appointment_reschedules_rescheduled_by_user_id_users_id_fk" FOREIGN KEY ("rescheduled_by_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
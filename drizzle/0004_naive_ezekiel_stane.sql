@@ -0,0 +1,4 @@
+ALTER TABLE "appointments" ADD COLUMN "appointment_price_in_cents" integer;--> statement-breakpoint
+UPDATE "appointments" SET "appointment_price_in_cents" = "doctors"."appointment_price_in_cents" FROM "doctors" WHERE "appointments"."doctor_id" = "doctors"."id";--> statement-breakpoint
+ALTER TABLE "appointments" ALTER COLUMN "appointment_price_in_cents" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "appointments" ADD COLUMN "price_override_reason" text;
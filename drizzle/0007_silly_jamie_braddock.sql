@@ -0,0 +1,4 @@
+ALTER TABLE "patients" DROP CONSTRAINT "patients_email_unique";--> statement-breakpoint
+ALTER TABLE "patients" DROP CONSTRAINT "patients_phone_number_unique";--> statement-breakpoint
+ALTER TABLE "patients" ADD CONSTRAINT "patients_clinic_id_email_unique" UNIQUE("clinic_id","email");--> statement-breakpoint
+ALTER TABLE "patients" ADD CONSTRAINT "patients_clinic_id_phone_number_unique" UNIQUE("clinic_id","phone_number");
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "patient_merges" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"merged_patient_id" uuid NOT NULL,
+	"merged_patient_data" jsonb NOT NULL,
+	"moved_appointments_count" integer NOT NULL,
+	"clinic_id" uuid NOT NULL,
+	"surviving_patient_id" uuid NOT NULL,
+	"merged_by_user_id" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "patient_merges" ADD CONSTRAINT "patient_merges_clinic_id_clinics_id_fk" FOREIGN KEY ("clinic_id") REFERENCES "public"."clinics"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "patient_merges" ADD CONSTRAINT "patient_merges_surviving_patient_id_patients_id_fk" FOREIGN KEY ("surviving_patient_id") REFERENCES "public"."patients"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "patient_merges" ADD CONSTRAINT "patient_merges_merged_by_user_id_users_id_fk" FOREIGN KEY ("merged_by_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "patients" ADD COLUMN "cpf" text;--> statement-breakpoint
+ALTER TABLE "patients" ADD CONSTRAINT "patients_clinic_id_cpf_unique" UNIQUE("clinic_id","cpf");
\ No newline at end of file
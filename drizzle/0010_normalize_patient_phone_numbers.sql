@@ -0,0 +1,27 @@
+-- Custom SQL migration file, put your code below! --
+-- Rewrites free-text phone numbers to E.164. Numbers that would collide with
+-- another patient of the same clinic after normalization are left untouched
+-- and can be merged with the duplicate patients tool.
+WITH "normalized" AS (
+	SELECT
+		"id",
+		"clinic_id",
+		'+55' || CASE
+			WHEN length(regexp_replace("phone_number", '\D', '', 'g')) > 11
+				AND regexp_replace("phone_number", '\D', '', 'g') LIKE '55%'
+				THEN substr(regexp_replace("phone_number", '\D', '', 'g'), 3)
+			ELSE ltrim(regexp_replace("phone_number", '\D', '', 'g'), '0')
+		END AS "phone_number"
+	FROM "patients"
+)
+UPDATE "patients"
+SET "phone_number" = "normalized"."phone_number"
+FROM "normalized"
+WHERE "patients"."id" = "normalized"."id"
+	AND "patients"."phone_number" <> "normalized"."phone_number"
+	AND NOT EXISTS (
+		SELECT 1 FROM "normalized" AS "other"
+		WHERE "other"."clinic_id" = "normalized"."clinic_id"
+			AND "other"."phone_number" = "normalized"."phone_number"
+			AND "other"."id" <> "normalized"."id"
+	);
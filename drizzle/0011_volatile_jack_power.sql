@@ -0,0 +1,4 @@
+ALTER TABLE "patients" ADD COLUMN "birth_date" date;--> statement-breakpoint
+ALTER TABLE "patients" ADD COLUMN "guardian_name" text;--> statement-breakpoint
+ALTER TABLE "patients" ADD COLUMN "guardian_cpf" text;--> statement-breakpoint
+ALTER TABLE "patients" ADD COLUMN "guardian_phone_number" text;
\ No newline at end of file
@@ -0,0 +1,39 @@
+CREATE TYPE "public"."clinic_member_role" AS ENUM('owner', 'member');--> statement-breakpoint
+CREATE TABLE "clinical_note_versions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"clinical_note_id" uuid NOT NULL,
+	"version" integer NOT NULL,
+	"chief_complaint" text NOT NULL,
+	"history" text NOT NULL,
+	"physical_exam" text NOT NULL,
+	"assessment" text NOT NULL,
+	"plan" text NOT NULL,
+	"created_by_user_id" text,
+	"signed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "clinical_note_versions_clinical_note_id_version_unique" UNIQUE("clinical_note_id","version")
+);
+--> statement-breakpoint
+CREATE TABLE "clinical_notes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"appointment_id" uuid NOT NULL,
+	"patient_id" uuid NOT NULL,
+	"clinic_id" uuid NOT NULL,
+	"author_user_id" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "clinical_notes_appointment_id_unique" UNIQUE("appointment_id")
+);
+--> statement-breakpoint
+ALTER TABLE "doctors" ADD COLUMN "user_id" text;--> statement-breakpoint
+ALTER TABLE "users_to_clinics" ADD COLUMN "role" "clinic_member_role" DEFAULT 'member' NOT NULL;--> statement-breakpoint
+ALTER TABLE "clinical_note_versions" ADD CONSTRAINT "clinical_note_versions_clinical_note_id_clinical_notes_id_fk" FOREIGN KEY ("clinical_note_id") REFERENCES "public"."clinical_notes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "clinical_note_versions" ADD CONSTRAINT "clinical_note_versions_created_by_user_id_users_id_fk" FOREIGN KEY ("created_by_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "clinical_notes" ADD CONSTRAINT "clinical_notes_appointment_id_appointments_id_fk" FOREIGN KEY ("appointment_id") REFERENCES "public"."appointments"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "clinical_notes" ADD CONSTRAINT "clinical_notes_patient_id_patients_id_fk" FOREIGN KEY ("patient_id") REFERENCES "public"."patients"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "clinical_notes" ADD CONSTRAINT "clinical_notes_clinic_id_clinics_id_fk" FOREIGN KEY ("clinic_id") REFERENCES "public"."clinics"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "clinical_notes" ADD CONSTRAINT "clinical_notes_author_user_id_users_id_fk" FOREIGN KEY ("author_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "doctors" ADD CONSTRAINT "doctors_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+-- Clinics have only ever been joined by the user who created them.
+UPDATE "users_to_clinics" SET "role" = 'owner';
@@ -0,0 +1,16 @@
+CREATE TYPE "public"."patient_data_request_type" AS ENUM('export', 'anonymization');--> statement-breakpoint
+CREATE TABLE "patient_data_requests" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"type" "patient_data_request_type" NOT NULL,
+	"clinic_id" uuid NOT NULL,
+	"patient_id" uuid,
+	"requested_by_user_id" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "patients" ALTER COLUMN "email" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "patients" ALTER COLUMN "phone_number" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "patients" ADD COLUMN "anonymized_at" timestamp;--> statement-breakpoint
+ALTER TABLE "patient_data_requests" ADD CONSTRAINT "patient_data_requests_clinic_id_clinics_id_fk" FOREIGN KEY ("clinic_id") REFERENCES "public"."clinics"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "patient_data_requests" ADD CONSTRAINT "patient_data_requests_patient_id_patients_id_fk" FOREIGN KEY ("patient_id") REFERENCES "public"."patients"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "patient_data_requests" ADD CONSTRAINT "patient_data_requests_requested_by_user_id_users_id_fk" FOREIGN KEY ("requested_by_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,26 @@
+CREATE TABLE "doctor_availabilities" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"doctor_id" uuid NOT NULL,
+	"week_day" integer NOT NULL,
+	"from_time" time NOT NULL,
+	"to_time" time NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "doctor_availabilities" ADD CONSTRAINT "doctor_availabilities_doctor_id_doctors_id_fk" FOREIGN KEY ("doctor_id") REFERENCES "public"."doctors"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+-- Each weekday of the old range becomes its own window. Ranges such as
+-- Friday to Monday wrap around the week.
+INSERT INTO "doctor_availabilities" ("doctor_id", "week_day", "from_time", "to_time")
+SELECT "doctors"."id", "week_day", "doctors"."available_from_time", "doctors"."available_to_time"
+FROM "doctors"
+CROSS JOIN generate_series(0, 6) AS "week_day"
+WHERE CASE
+	WHEN "doctors"."available_from_week_day" <= "doctors"."available_to_week_day"
+		THEN "week_day" BETWEEN "doctors"."available_from_week_day" AND "doctors"."available_to_week_day"
+	ELSE "week_day" >= "doctors"."available_from_week_day" OR "week_day" <= "doctors"."available_to_week_day"
+END;--> statement-breakpoint
+ALTER TABLE "doctors" DROP COLUMN "available_from_week_day";--> statement-breakpoint
+ALTER TABLE "doctors" DROP COLUMN "available_to_week_day";--> statement-breakpoint
+ALTER TABLE "doctors" DROP COLUMN "available_from_time";--> statement-breakpoint
+ALTER TABLE "doctors" DROP COLUMN "available_to_time";
\ No newline at end of file
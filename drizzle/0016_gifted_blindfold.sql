@@ -0,0 +1,15 @@
+CREATE TYPE "public"."clinic_holiday_type" AS ENUM('state', 'municipal', 'clinic');--> statement-breakpoint
+CREATE TABLE "clinic_holidays" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"clinic_id" uuid NOT NULL,
+	"type" "clinic_holiday_type" NOT NULL,
+	"name" text NOT NULL,
+	"date" date NOT NULL,
+	"recurring" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "clinic_holidays_clinic_id_date_unique" UNIQUE("clinic_id","date")
+);
+--> statement-breakpoint
+ALTER TABLE "clinics" ADD COLUMN "open_on_holidays" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "clinic_holidays" ADD CONSTRAINT "clinic_holidays_clinic_id_clinics_id_fk" FOREIGN KEY ("clinic_id") REFERENCES "public"."clinics"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
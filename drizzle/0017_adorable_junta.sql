@@ -0,0 +1,4 @@
+CREATE TYPE "public"."brazilian_state" AS ENUM('AC', 'AL', 'AM', 'AP', 'BA', 'CE', 'DF', 'ES', 'GO', 'MA', 'MG', 'MS', 'MT', 'PA', 'PB', 'PE', 'PI', 'PR', 'RJ', 'RN', 'RO', 'RR', 'RS', 'SC', 'SE', 'SP', 'TO');--> statement-breakpoint
+ALTER TABLE "doctors" ADD COLUMN "crm_number" text;--> statement-breakpoint
+ALTER TABLE "doctors" ADD COLUMN "crm_state" "brazilian_state";--> statement-breakpoint
+ALTER TABLE "doctors" ADD CONSTRAINT "doctors_clinic_id_crm_number_crm_state_unique" UNIQUE("clinic_id","crm_number","crm_state");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "clinics" ADD COLUMN "time_zone" text DEFAULT 'America/Sao_Paulo' NOT NULL;--> statement-breakpoint
+UPDATE "doctor_availabilities" SET "from_time" = ((current_date + "doctor_availabilities"."from_time") AT TIME ZONE 'UTC' AT TIME ZONE "clinics"."time_zone")::time, "to_time" = ((current_date + "doctor_availabilities"."to_time") AT TIME ZONE 'UTC' AT TIME ZONE "clinics"."time_zone")::time FROM "doctors", "clinics" WHERE "doctor_availabilities"."doctor_id" = "doctors"."id" AND "doctors"."clinic_id" = "clinics"."id";
\ No newline at end of file
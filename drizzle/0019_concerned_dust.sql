@@ -0,0 +1,9 @@
+ALTER TABLE "clinical_note_versions" DROP CONSTRAINT "clinical_note_versions_clinical_note_id_clinical_notes_id_fk";
+--> statement-breakpoint
+ALTER TABLE "clinical_notes" DROP CONSTRAINT "clinical_notes_appointment_id_appointments_id_fk";
+--> statement-breakpoint
+ALTER TABLE "clinical_notes" DROP CONSTRAINT "clinical_notes_patient_id_patients_id_fk";
+--> statement-breakpoint
+ALTER TABLE "clinical_note_versions" ADD CONSTRAINT "clinical_note_versions_clinical_note_id_clinical_notes_id_fk" FOREIGN KEY ("clinical_note_id") REFERENCES "public"."clinical_notes"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "clinical_notes" ADD CONSTRAINT "clinical_notes_appointment_id_appointments_id_fk" FOREIGN KEY ("appointment_id") REFERENCES "public"."appointments"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "clinical_notes" ADD CONSTRAINT "clinical_notes_patient_id_patients_id_fk" FOREIGN KEY ("patient_id") REFERENCES "public"."patients"("id") ON DELETE restrict ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "appointments" ADD COLUMN "appointment_duration_in_minutes" integer;--> statement-breakpoint
+ALTER TABLE "appointments" ADD COLUMN "appointment_buffer_in_minutes" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+UPDATE "appointments" SET "appointment_duration_in_minutes" = "doctors"."appointment_duration_in_minutes", "appointment_buffer_in_minutes" = "doctors"."appointment_buffer_in_minutes" FROM "doctors" WHERE "appointments"."doctor_id" = "doctors"."id";--> statement-breakpoint
+ALTER TABLE "appointments" ALTER COLUMN "appointment_duration_in_minutes" SET NOT NULL;
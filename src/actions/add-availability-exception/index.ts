@@ -0,0 +1,87 @@
+"use server";
+
+import dayjs from "dayjs";
+import { and, asc, eq, gt, inArray, lt } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+
+import { addAvailabilityExceptionSchema } from "@/actions/add-availability-exception/schema";
+import { MAX_APPOINTMENT_DURATION_IN_MINUTES } from "@/app/(protected)/doctors/_constants";
+import { db } from "@/db";
+import {
+  appointmentsTable,
+  doctorAvailabilityExceptionsTable,
+  doctorsTable,
+} from "@/db/schema";
+import { auth } from "@/lib/auth";
+import { actionClient } from "@/lib/safe-action";
+
+export const addAvailabilityExceptionAction = actionClient
+  .inputSchema(addAvailabilityExceptionSchema)
+  .action(async ({ parsedInput }) => {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user) {
+      throw new Error("Usuário não autenticado");
+    }
+
+    const doctor = await db.query.doctorsTable.findFirst({
+      where: eq(doctorsTable.id, parsedInput.doctorId),
+    });
+
+    if (!doctor) {
+      throw new Error("Médico não encontrado");
+    }
+
+    if (doctor.clinicId !== session.user.clinic?.id) {
+      throw new Error("Você não tem permissão para alterar este médico");
+    }
+
+    await db.insert(doctorAvailabilityExceptionsTable).values({
+      doctorId: doctor.id,
+      type: parsedInput.type,
+      startsAt: parsedInput.startsAt,
+      endsAt: parsedInput.endsAt,
+      reason: parsedInput.reason,
+    });
+
+    // A block does not cancel anything by itself: open appointments that
+    // overlap it are returned so they can be rescheduled one by one. Each
+    // appointment lasts the duration it was booked with.
+    const nearbyAppointments =
+      parsedInput.type === "block"
+        ? await db.query.appointmentsTable.findMany({
+            where: and(
+              eq(appointmentsTable.doctorId, doctor.id),
+              inArray(appointmentsTable.status, ["scheduled", "confirmed"]),
+              gt(
+                appointmentsTable.date,
+                dayjs(parsedInput.startsAt)
+                  .subtract(MAX_APPOINTMENT_DURATION_IN_MINUTES, "minute")
+                  .toDate(),
+              ),
+              lt(appointmentsTable.date, parsedInput.endsAt),
+            ),
+            with: {
+              patient: {
+                columns: {
+                  name: true,
+                },
+              },
+            },
+            orderBy: [asc(appointmentsTable.date)],
+          })
+        : [];
+    const affectedAppointments = nearbyAppointments.filter((appointment) =>
+      dayjs(appointment.date)
+        .add(appointment.appointmentDurationInMinutes, "minute")
+        .isAfter(parsedInput.startsAt),
+    );
+
+    revalidatePath("/doctors");
+    revalidatePath("/appointments", "layout");
+
+    return { affectedAppointments };
+  });
@@ -0,0 +1,24 @@
+import { z } from "zod";
+
+import { availabilityExceptionTypeEnum } from "@/db/schema";
+
+export const addAvailabilityExceptionSchema = z
+  .object({
+    doctorId: z.string().uuid(),
+    type: z.enum(availabilityExceptionTypeEnum.enumValues),
+    startsAt: z.date({ message: "Início é obrigatório" }),
+    endsAt: z.date({ message: "Fim é obrigatório" }),
+    reason: z
+      .string()
+      .trim()
+      .optional()
+      .transform((reason) => reason || null),
+  })
+  .refine((data) => data.endsAt > data.startsAt, {
+    message: "O fim deve ser posterior ao início",
+    path: ["endsAt"],
+  });
+
+export type AddAvailabilityExceptionSchema = z.infer<
+  typeof addAvailabilityExceptionSchema
+>;
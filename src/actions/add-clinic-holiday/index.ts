@@ -0,0 +1,57 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+import { returnValidationErrors } from "next-safe-action";
+
+import { addClinicHolidaySchema } from "@/actions/add-clinic-holiday/schema";
+import { db } from "@/db";
+import { clinicHolidaysTable } from "@/db/schema";
+import { isUniqueConstraintViolation } from "@/helpers/database-errors";
+import { auth } from "@/lib/auth";
+import { actionClient } from "@/lib/safe-action";
+
+export const addClinicHolidayAction = actionClient
+  .inputSchema(addClinicHolidaySchema)
+  .action(async ({ parsedInput }) => {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user) {
+      throw new Error("Usuário não autenticado");
+    }
+
+    if (!session.user.clinic?.id) {
+      throw new Error("Usuário não associado a uma clínica");
+    }
+
+    if (session.user.clinic.role !== "owner") {
+      throw new Error("Apenas o proprietário da clínica pode alterar feriados");
+    }
+
+    try {
+      await db.insert(clinicHolidaysTable).values({
+        ...parsedInput,
+        clinicId: session.user.clinic.id,
+      });
+    } catch (error) {
+      if (
+        isUniqueConstraintViolation(
+          error,
+          "clinic_holidays_clinic_id_date_unique",
+        )
+      ) {
+        returnValidationErrors(addClinicHolidaySchema, {
+          date: {
+            _errors: ["Já existe um feriado cadastrado nesta data."],
+          },
+        });
+      }
+
+      throw error;
+    }
+
+    revalidatePath("/holidays");
+    revalidatePath("/appointments", "layout");
+  });
@@ -0,0 +1,14 @@
+import { z } from "zod";
+
+import { clinicHolidayTypeEnum } from "@/db/schema";
+
+export const addClinicHolidaySchema = z.object({
+  name: z.string().trim().min(1, { message: "Nome é obrigatório" }),
+  date: z.string().date("Data inválida"),
+  type: z.enum(clinicHolidayTypeEnum.enumValues, {
+    message: "Tipo é obrigatório",
+  }),
+  recurring: z.boolean(),
+});
+
+export type AddClinicHolidaySchema = z.infer<typeof addClinicHolidaySchema>;
@@ -0,0 +1,56 @@
+"use server";
+
+import { eq } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+
+import { addWaitlistEntrySchema } from "@/actions/add-waitlist-entry/schema";
+import { db } from "@/db";
+import { doctorsTable, patientsTable, waitlistEntriesTable } from "@/db/schema";
+import { auth } from "@/lib/auth";
+import { actionClient } from "@/lib/safe-action";
+
+export const addWaitlistEntryAction = actionClient
+  .inputSchema(addWaitlistEntrySchema)
+  .action(async ({ parsedInput }) => {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user) {
+      throw new Error("Usuário não autenticado");
+    }
+
+    if (!session.user.clinic?.id) {
+      throw new Error("Usuário não associado a uma clínica");
+    }
+
+    const patient = await db.query.patientsTable.findFirst({
+      where: eq(patientsTable.id, parsedInput.patientId),
+    });
+
+    if (!patient || patient.clinicId !== session.user.clinic.id) {
+      throw new Error("Paciente não encontrado");
+    }
+
+    const doctor = parsedInput.doctorId
+      ? await db.query.doctorsTable.findFirst({
+          where: eq(doctorsTable.id, parsedInput.doctorId),
+        })
+      : undefined;
+
+    if (
+      parsedInput.doctorId &&
+      (!doctor || doctor.clinicId !== session.user.clinic.id)
+    ) {
+      throw new Error("Médico não encontrado");
+    }
+
+    await db.insert(waitlistEntriesTable).values({
+      ...parsedInput,
+      specialty: doctor?.specialty ?? parsedInput.specialty,
+      clinicId: session.user.clinic.id,
+    });
+
+    revalidatePath("/appointments/waitlist");
+  });
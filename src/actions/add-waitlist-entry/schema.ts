@@ -0,0 +1,22 @@
+import { z } from "zod";
+
+export const addWaitlistEntrySchema = z
+  .object({
+    patientId: z.string().uuid({ message: "Paciente é obrigatório" }),
+    doctorId: z.string().uuid().optional(),
+    specialty: z.string().trim().optional(),
+    preferredFromDate: z.date({ message: "Data inicial é obrigatória" }),
+    preferredToDate: z.date({ message: "Data final é obrigatória" }),
+    priority: z.number().int().min(0).max(2),
+    notes: z.string().trim().optional(),
+  })
+  .refine((data) => data.doctorId || data.specialty, {
+    message: "Informe o médico ou a especialidade",
+    path: ["doctorId"],
+  })
+  .refine((data) => data.preferredFromDate <= data.preferredToDate, {
+    message: "A data final não pode ser anterior à data inicial",
+    path: ["preferredToDate"],
+  });
+
+export type AddWaitlistEntrySchema = z.infer<typeof addWaitlistEntrySchema>;
@@ -0,0 +1,128 @@
+"use server";
+
+import { and, eq } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+import { z } from "zod";
+
+import { ANONYMIZED_PATIENT_NAME } from "@/app/(protected)/patients/_constants";
+import { db } from "@/db";
+import {
+  patientDataRequestsTable,
+  patientMergesTable,
+  patientsTable,
+  waitlistEntriesTable,
+} from "@/db/schema";
+import { auth } from "@/lib/auth";
+import { actionClient } from "@/lib/safe-action";
+
+export const anonymizePatientAction = actionClient
+  .inputSchema(
+    z.object({
+      id: z.string().uuid(),
+    }),
+  )
+  .action(async ({ parsedInput }) => {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user) {
+      throw new Error("Usuário não autenticado");
+    }
+
+    if (!session.user.clinic?.id) {
+      throw new Error("Usuário não associado a uma clínica");
+    }
+
+    if (session.user.clinic.role !== "owner") {
+      throw new Error("Apenas o proprietário da clínica pode anonimizar dados");
+    }
+
+    const patient = await db.query.patientsTable.findFirst({
+      where: eq(patientsTable.id, parsedInput.id),
+    });
+
+    if (!patient) {
+      throw new Error("Paciente não encontrado");
+    }
+
+    if (patient.clinicId !== session.user.clinic.id) {
+      throw new Error("Você não tem permissão para anonimizar este paciente");
+    }
+
+    if (patient.anonymizedAt) {
+      throw new Error("Paciente já anonimizado");
+    }
+
+    const clinicId = session.user.clinic.id;
+
+    // Appointments and clinical notes stay linked to the anonymized patient,
+    // since medical records must be retained by law.
+    await db.transaction(async (tx) => {
+      await tx
+        .update(patientsTable)
+        .set({
+          name: ANONYMIZED_PATIENT_NAME,
+          email: null,
+          phoneNumber: null,
+          cpf: null,
+          birthDate: null,
+          guardianName: null,
+          guardianCpf: null,
+          guardianPhoneNumber: null,
+          anonymizedAt: new Date(),
+        })
+        .where(eq(patientsTable.id, patient.id));
+
+      await tx
+        .update(waitlistEntriesTable)
+        .set({ notes: null })
+        .where(eq(waitlistEntriesTable.patientId, patient.id));
+
+      await tx
+        .update(waitlistEntriesTable)
+        .set({ status: "removed" })
+        .where(
+          and(
+            eq(waitlistEntriesTable.patientId, patient.id),
+            eq(waitlistEntriesTable.status, "waiting"),
+          ),
+        );
+
+      // Merge logs keep a snapshot of the merged record, which is the same
+      // person's data.
+      const patientMerges = await tx.query.patientMergesTable.findMany({
+        where: eq(patientMergesTable.survivingPatientId, patient.id),
+      });
+
+      for (const patientMerge of patientMerges) {
+        await tx
+          .update(patientMergesTable)
+          .set({
+            mergedPatientData: {
+              ...patientMerge.mergedPatientData,
+              name: ANONYMIZED_PATIENT_NAME,
+              email: null,
+              phoneNumber: null,
+              cpf: null,
+              birthDate: null,
+              guardianName: null,
+              guardianCpf: null,
+              guardianPhoneNumber: null,
+            },
+          })
+          .where(eq(patientMergesTable.id, patientMerge.id));
+      }
+
+      await tx.insert(patientDataRequestsTable).values({
+        type: "anonymization",
+        clinicId,
+        patientId: patient.id,
+        requestedByUserId: session.user.id,
+      });
+    });
+
+    revalidatePath("/patients", "layout");
+    revalidatePath("/appointments", "layout");
+  });
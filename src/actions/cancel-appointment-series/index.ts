@@ -0,0 +1,103 @@
+"use server";
+
+import { asc, eq, inArray } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+import { z } from "zod";
+
+import { appointmentSeriesScopes } from "@/app/(protected)/appointments/_constants";
+import { canTransitionAppointmentStatus } from "@/app/(protected)/appointments/_helpers/status";
+import { getSeriesAppointmentsInScope } from "@/data/get-series-appointments-in-scope";
+import { getWaitlistSuggestions } from "@/data/get-waitlist-suggestions";
+import { db } from "@/db";
+import { appointmentsTable, appointmentStatusChangesTable } from "@/db/schema";
+import { auth } from "@/lib/auth";
+import { actionClient } from "@/lib/safe-action";
+
+export const cancelAppointmentSeriesAction = actionClient
+  .inputSchema(
+    z.object({
+      id: z.string().uuid(),
+      scope: z.enum(appointmentSeriesScopes),
+    }),
+  )
+  .action(async ({ parsedInput }) => {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user) {
+      throw new Error("Usuário não autenticado");
+    }
+
+    const appointment = await db.query.appointmentsTable.findFirst({
+      where: eq(appointmentsTable.id, parsedInput.id),
+    });
+
+    if (!appointment) {
+      throw new Error("Agendamento não encontrado");
+    }
+
+    if (appointment.clinicId !== session.user.clinic?.id) {
+      throw new Error("Você não tem permissão para alterar este agendamento");
+    }
+
+    const appointments = (
+      await getSeriesAppointmentsInScope(appointment, parsedInput.scope)
+    ).filter((appointment) =>
+      canTransitionAppointmentStatus(appointment.status, "cancelled"),
+    );
+
+    if (appointments.length > 0) {
+      await db.transaction(async (tx) => {
+        await tx
+          .update(appointmentsTable)
+          .set({ status: "cancelled" })
+          .where(
+            inArray(
+              appointmentsTable.id,
+              appointments.map(({ id }) => id),
+            ),
+          );
+
+        await tx.insert(appointmentStatusChangesTable).values(
+          appointments.map((appointment) => ({
+            appointmentId: appointment.id,
+            fromStatus: appointment.status,
+            toStatus: "cancelled" as const,
+            changedByUserId: session.user.id,
+          })),
+        );
+      });
+    }
+
+    // Each upcoming occurrence frees a slot that can be offered to the
+    // waitlist, as when a single appointment is cancelled.
+    const now = new Date();
+    const freedAppointmentIds = appointments
+      .filter((appointment) => appointment.date > now)
+      .map(({ id }) => id);
+    const freedAppointments =
+      freedAppointmentIds.length > 0
+        ? await db.query.appointmentsTable.findMany({
+            where: inArray(appointmentsTable.id, freedAppointmentIds),
+            with: {
+              doctor: true,
+            },
+            orderBy: [asc(appointmentsTable.date)],
+          })
+        : [];
+    const freedSlots = (
+      await Promise.all(
+        freedAppointments.map(async (appointment) => ({
+          appointment,
+          waitlistSuggestions: await getWaitlistSuggestions(appointment),
+        })),
+      )
+    ).filter(({ waitlistSuggestions }) => waitlistSuggestions.length > 0);
+
+    revalidatePath("/appointments", "layout");
+    revalidatePath("/patients/[id]", "page");
+
+    return { cancelledCount: appointments.length, freedSlots };
+  });
@@ -0,0 +1,140 @@
+"use server";
+
+import { eq } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+import { returnValidationErrors } from "next-safe-action";
+
+import { createAppointmentSeriesSchema } from "@/actions/create-appointment-series/schema";
+import { getSeriesOccurrences } from "@/app/(protected)/appointments/_helpers/recurrence";
+import {
+  checkAppointmentAvailability,
+  lockDoctorSchedule,
+} from "@/data/check-appointment-availability";
+import { db } from "@/db";
+import {
+  appointmentSeriesTable,
+  appointmentsTable,
+  doctorsTable,
+  patientsTable,
+} from "@/db/schema";
+import { getClinicDate, getClinicDayRange } from "@/helpers/time-zone";
+import { auth } from "@/lib/auth";
+import { actionClient } from "@/lib/safe-action";
+
+export const createAppointmentSeriesAction = actionClient
+  .inputSchema(createAppointmentSeriesSchema)
+  .action(async ({ parsedInput }) => {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user) {
+      throw new Error("Usuário não autenticado");
+    }
+
+    if (!session.user.clinic?.id) {
+      throw new Error("Usuário não associado a uma clínica");
+    }
+
+    const [patient, doctor] = await Promise.all([
+      db.query.patientsTable.findFirst({
+        where: eq(patientsTable.id, parsedInput.patientId),
+      }),
+      db.query.doctorsTable.findFirst({
+        where: eq(doctorsTable.id, parsedInput.doctorId),
+      }),
+    ]);
+
+    if (!patient || patient.clinicId !== session.user.clinic.id) {
+      throw new Error("Paciente não encontrado");
+    }
+
+    if (!doctor || doctor.clinicId !== session.user.clinic.id) {
+      throw new Error("Médico não encontrado");
+    }
+
+    const clinicId = session.user.clinic.id;
+    const timeZone = session.user.clinic.timeZone;
+
+    if (
+      parsedInput.endsAt &&
+      parsedInput.endsAt < getClinicDate(parsedInput.startDate, timeZone)
+    ) {
+      returnValidationErrors(createAppointmentSeriesSchema, {
+        endsAt: {
+          _errors: ["A data final não pode ser anterior à data de início"],
+        },
+      });
+    }
+
+    const dates = getSeriesOccurrences({ ...parsedInput, timeZone });
+
+    if (dates.length === 0) {
+      returnValidationErrors(createAppointmentSeriesSchema, {
+        _errors: ["Nenhuma ocorrência encontrada para esta recorrência."],
+      });
+    }
+
+    const conflicts = await db.transaction(async (tx) => {
+      await lockDoctorSchedule(tx, doctor.id);
+
+      const availabilities = await Promise.all(
+        dates.map(async (date) => ({
+          date,
+          availability: await checkAppointmentAvailability({
+            tx,
+            doctor,
+            date,
+            timeZone,
+          }),
+        })),
+      );
+      const conflicts = availabilities.flatMap(({ date, availability }) =>
+        availability.available ? [] : [{ date, reason: availability.reason }],
+      );
+
+      if (conflicts.length > 0) {
+        return conflicts;
+      }
+
+      const [series] = await tx
+        .insert(appointmentSeriesTable)
+        .values({
+          intervalInWeeks: parsedInput.intervalInWeeks,
+          weekDays: parsedInput.weekDays,
+          occurrences: parsedInput.occurrences,
+          endsAt: parsedInput.endsAt
+            ? getClinicDayRange(parsedInput.endsAt, timeZone).start.toDate()
+            : undefined,
+          clinicId,
+          patientId: patient.id,
+          doctorId: doctor.id,
+        })
+        .returning();
+
+      await tx.insert(appointmentsTable).values(
+        dates.map((date) => ({
+          date,
+          appointmentPriceInCents: doctor.appointmentPriceInCents,
+          appointmentDurationInMinutes: doctor.appointmentDurationInMinutes,
+          appointmentBufferInMinutes: doctor.appointmentBufferInMinutes,
+          clinicId,
+          patientId: patient.id,
+          doctorId: doctor.id,
+          seriesId: series.id,
+        })),
+      );
+
+      return conflicts;
+    });
+
+    if (conflicts.length > 0) {
+      return { conflicts, createdCount: 0 };
+    }
+
+    revalidatePath("/appointments", "layout");
+    revalidatePath("/patients/[id]", "page");
+
+    return { conflicts, createdCount: dates.length };
+  });
@@ -0,0 +1,26 @@
+import { z } from "zod";
+
+import { MAX_SERIES_OCCURRENCES } from "@/app/(protected)/appointments/_helpers/recurrence";
+
+export const createAppointmentSeriesSchema = z
+  .object({
+    patientId: z.string().uuid({ message: "Paciente é obrigatório" }),
+    doctorId: z.string().uuid({ message: "Médico é obrigatório" }),
+    startDate: z.date({ message: "Data de início é obrigatória" }),
+    intervalInWeeks: z.number().int().min(1).max(12),
+    weekDays: z
+      .array(z.number().int().min(0).max(6))
+      .min(1, { message: "Selecione ao menos um dia da semana" }),
+    occurrences: z.number().int().min(1).max(MAX_SERIES_OCCURRENCES).optional(),
+    // Last day of the series at the clinic; the action checks it against
+    // the start date in the clinic's time zone.
+    endsAt: z.string().date().optional(),
+  })
+  .refine((data) => data.occurrences !== undefined || data.endsAt, {
+    message: "Informe o número de ocorrências ou a data final",
+    path: ["occurrences"],
+  });
+
+export type CreateAppointmentSeriesSchema = z.infer<
+  typeof createAppointmentSeriesSchema
+>;
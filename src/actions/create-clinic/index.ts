@@ -5,9 +5,10 @@ import { redirect } from "next/navigation";
 
 import { db } from "@/db";
 import { clinicsTable, usersToClinicsTable } from "@/db/schema";
+import { isClinicTimeZone } from "@/helpers/time-zone";
 import { auth } from "@/lib/auth";
 
-export const createClinicAction = async (name: string) => {
+export const createClinicAction = async (name: string, timeZone: string) => {
   const session = await auth.api.getSession({
     headers: await headers(),
   });
@@ -16,16 +17,22 @@ export const createClinicAction = async (name: string) => {
     throw new Error("Usuário não autenticado");
   }
 
+  if (!isClinicTimeZone(timeZone)) {
+    throw new Error("Fuso horário inválido");
+  }
+
   const [clinic] = await db
     .insert(clinicsTable)
     .values({
       name,
+      timeZone,
     })
     .returning();
 
   await db.insert(usersToClinicsTable).values({
     userId: session.user.id,
     clinicId: clinic.id,
+    role: "owner",
   });
 
   redirect("/dashboard");
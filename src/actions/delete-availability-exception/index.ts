@@ -0,0 +1,50 @@
+"use server";
+
+import { eq } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+import { z } from "zod";
+
+import { db } from "@/db";
+import { doctorAvailabilityExceptionsTable } from "@/db/schema";
+import { auth } from "@/lib/auth";
+import { actionClient } from "@/lib/safe-action";
+
+export const deleteAvailabilityExceptionAction = actionClient
+  .inputSchema(
+    z.object({
+      id: z.string().uuid(),
+    }),
+  )
+  .action(async ({ parsedInput }) => {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user) {
+      throw new Error("Usuário não autenticado");
+    }
+
+    const exception =
+      await db.query.doctorAvailabilityExceptionsTable.findFirst({
+        where: eq(doctorAvailabilityExceptionsTable.id, parsedInput.id),
+        with: {
+          doctor: true,
+        },
+      });
+
+    if (!exception) {
+      throw new Error("Exceção de disponibilidade não encontrada");
+    }
+
+    if (exception.doctor.clinicId !== session.user.clinic?.id) {
+      throw new Error("Você não tem permissão para alterar este médico");
+    }
+
+    await db
+      .delete(doctorAvailabilityExceptionsTable)
+      .where(eq(doctorAvailabilityExceptionsTable.id, parsedInput.id));
+
+    revalidatePath("/doctors");
+    revalidatePath("/appointments", "layout");
+  });
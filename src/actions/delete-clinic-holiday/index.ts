@@ -0,0 +1,50 @@
+"use server";
+
+import { eq } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+import { z } from "zod";
+
+import { db } from "@/db";
+import { clinicHolidaysTable } from "@/db/schema";
+import { auth } from "@/lib/auth";
+import { actionClient } from "@/lib/safe-action";
+
+export const deleteClinicHolidayAction = actionClient
+  .inputSchema(
+    z.object({
+      id: z.string().uuid(),
+    }),
+  )
+  .action(async ({ parsedInput }) => {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user) {
+      throw new Error("Usuário não autenticado");
+    }
+
+    if (session.user.clinic?.role !== "owner") {
+      throw new Error("Apenas o proprietário da clínica pode alterar feriados");
+    }
+
+    const holiday = await db.query.clinicHolidaysTable.findFirst({
+      where: eq(clinicHolidaysTable.id, parsedInput.id),
+    });
+
+    if (!holiday) {
+      throw new Error("Feriado não encontrado");
+    }
+
+    if (holiday.clinicId !== session.user.clinic.id) {
+      throw new Error("Você não tem permissão para excluir este feriado");
+    }
+
+    await db
+      .delete(clinicHolidaysTable)
+      .where(eq(clinicHolidaysTable.id, parsedInput.id));
+
+    revalidatePath("/holidays");
+    revalidatePath("/appointments", "layout");
+  });
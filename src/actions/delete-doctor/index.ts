@@ -1,21 +1,27 @@
 "use server";
 
-import { eq } from "drizzle-orm";
+import { eq, inArray } from "drizzle-orm";
 import { revalidatePath } from "next/cache";
 import { headers } from "next/headers";
+import { returnValidationErrors } from "next-safe-action";
 import { z } from "zod";
 
 import { db } from "@/db";
-import { doctorsTable } from "@/db/schema";
+import {
+  appointmentsTable,
+  clinicalNotesTable,
+  doctorsTable,
+} from "@/db/schema";
 import { auth } from "@/lib/auth";
 import { actionClient } from "@/lib/safe-action";
+import { getStorage } from "@/lib/storage";
+
+const deleteDoctorSchema = z.object({
+  id: z.string().uuid(),
+});
 
 export const deleteDoctorAction = actionClient
-  .inputSchema(
-    z.object({
-      id: z.string().uuid(),
-    }),
-  )
+  .inputSchema(deleteDoctorSchema)
   .action(async ({ parsedInput }) => {
     const session = await auth.api.getSession({
       headers: await headers(),
@@ -37,7 +43,31 @@ export const deleteDoctorAction = actionClient
       throw new Error("Você não tem permissão para excluir este médico");
     }
 
+    // Deleting a doctor deletes their appointments, which the database
+    // refuses once any of them has a clinical note.
+    const clinicalNote = await db.query.clinicalNotesTable.findFirst({
+      where: inArray(
+        clinicalNotesTable.appointmentId,
+        db
+          .select({ id: appointmentsTable.id })
+          .from(appointmentsTable)
+          .where(eq(appointmentsTable.doctorId, doctor.id)),
+      ),
+    });
+
+    if (clinicalNote) {
+      returnValidationErrors(deleteDoctorSchema, {
+        _errors: [
+          "Médicos com prontuários registrados não podem ser excluídos.",
+        ],
+      });
+    }
+
     await db.delete(doctorsTable).where(eq(doctorsTable.id, parsedInput.id));
 
+    if (doctor.avatarImageUrl) {
+      await getStorage().remove(doctor.avatarImageUrl);
+    }
+
     revalidatePath("/doctors");
   });
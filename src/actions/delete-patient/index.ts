@@ -0,0 +1,70 @@
+"use server";
+
+import { eq } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+import { returnValidationErrors } from "next-safe-action";
+import { z } from "zod";
+
+import { db } from "@/db";
+import { patientsTable } from "@/db/schema";
+import { auth } from "@/lib/auth";
+import { actionClient } from "@/lib/safe-action";
+
+const deletePatientSchema = z.object({
+  id: z.string().uuid(),
+});
+
+export const deletePatientAction = actionClient
+  .inputSchema(deletePatientSchema)
+  .action(async ({ parsedInput }) => {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user) {
+      throw new Error("Usuário não autenticado");
+    }
+
+    if (session.user.clinic?.role !== "owner") {
+      throw new Error(
+        "Apenas o proprietário da clínica pode excluir pacientes",
+      );
+    }
+
+    const patient = await db.query.patientsTable.findFirst({
+      where: eq(patientsTable.id, parsedInput.id),
+      with: {
+        appointments: { columns: { id: true }, limit: 1 },
+        clinicalNotes: { columns: { id: true }, limit: 1 },
+        dataRequests: { columns: { id: true }, limit: 1 },
+      },
+    });
+
+    if (!patient) {
+      throw new Error("Paciente não encontrado");
+    }
+
+    if (patient.clinicId !== session.user.clinic?.id) {
+      throw new Error("Você não tem permissão para excluir este paciente");
+    }
+
+    // Appointments and clinical notes must be retained by law, and LGPD
+    // requests must keep their subject, so patients with any of them are
+    // anonymized instead of deleted.
+    if (
+      patient.appointments.length > 0 ||
+      patient.clinicalNotes.length > 0 ||
+      patient.dataRequests.length > 0
+    ) {
+      returnValidationErrors(deletePatientSchema, {
+        _errors: [
+          "Pacientes com histórico de atendimentos não podem ser excluídos. Use a anonimização na página do paciente.",
+        ],
+      });
+    }
+
+    await db.delete(patientsTable).where(eq(patientsTable.id, parsedInput.id));
+
+    revalidatePath("/patients", "layout");
+  });
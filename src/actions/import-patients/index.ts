@@ -0,0 +1,191 @@
+"use server";
+
+import { eq } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+import { z } from "zod";
+
+import { importPatientsSchema } from "@/actions/import-patients/schema";
+import { upsertPatientSchema } from "@/actions/upsert-patient/schema";
+import {
+  parsePatientBirthDate,
+  parsePatientSex,
+} from "@/app/(protected)/patients/_helpers/import";
+import { db } from "@/db";
+import { patientsTable } from "@/db/schema";
+import { auth } from "@/lib/auth";
+import { actionClient } from "@/lib/safe-action";
+
+type ImportRow = {
+  rowNumber: number;
+  name: string;
+  errors: string[];
+} & (
+  | { status: "invalid" }
+  | { status: "new"; values: z.output<typeof upsertPatientSchema> }
+  | {
+      status: "duplicate";
+      patientId: string;
+      values: z.output<typeof upsertPatientSchema>;
+    }
+);
+
+export const importPatientsAction = actionClient
+  .inputSchema(importPatientsSchema)
+  .action(async ({ parsedInput }) => {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user) {
+      throw new Error("Usuário não autenticado");
+    }
+
+    if (!session.user.clinic?.id) {
+      throw new Error("Usuário não associado a uma clínica");
+    }
+
+    const clinicId = session.user.clinic.id;
+    const existingPatients = await db.query.patientsTable.findMany({
+      where: eq(patientsTable.clinicId, clinicId),
+      columns: {
+        id: true,
+        email: true,
+        phoneNumber: true,
+        cpf: true,
+      },
+    });
+
+    // Keys identify a patient by any of its unique fields, e.g.
+    // "email:ana@email.com", so one lookup covers every constraint.
+    const getPatientKeys = (patient: {
+      email: string | null;
+      phoneNumber: string | null;
+      cpf?: string | null;
+    }) => [
+      ...(patient.email ? [`email:${patient.email.toLowerCase()}`] : []),
+      ...(patient.phoneNumber ? [`phoneNumber:${patient.phoneNumber}`] : []),
+      ...(patient.cpf ? [`cpf:${patient.cpf}`] : []),
+    ];
+    const existingPatientIdsByKey = new Map(
+      existingPatients.flatMap((patient) =>
+        getPatientKeys(patient).map((key) => [key, patient.id] as const),
+      ),
+    );
+    const rowNumbersByKey = new Map<string, number>();
+
+    const rows = parsedInput.rows.map((row, index): ImportRow => {
+      // The first line of the file is the header.
+      const rowNumber = index + 2;
+      const result = upsertPatientSchema.safeParse({
+        ...row,
+        sex: parsePatientSex(row.sex) ?? row.sex,
+        birthDate: parsePatientBirthDate(row.birthDate),
+      });
+
+      if (!result.success) {
+        return {
+          rowNumber,
+          name: row.name,
+          status: "invalid",
+          errors: result.error.issues.map((issue) => issue.message),
+        };
+      }
+
+      const keys = getPatientKeys(result.data);
+      const duplicateRowNumber = keys
+        .map((key) => rowNumbersByKey.get(key))
+        .find(Boolean);
+      const matchedPatientIds = new Set(
+        keys.flatMap((key) => existingPatientIdsByKey.get(key) ?? []),
+      );
+
+      keys.forEach((key) => rowNumbersByKey.set(key, rowNumber));
+
+      if (duplicateRowNumber) {
+        return {
+          rowNumber,
+          name: row.name,
+          status: "invalid",
+          errors: [`Paciente repetido na linha ${duplicateRowNumber}`],
+        };
+      }
+
+      if (matchedPatientIds.size > 1) {
+        return {
+          rowNumber,
+          name: row.name,
+          status: "invalid",
+          errors: ["Os dados correspondem a mais de um paciente cadastrado"],
+        };
+      }
+
+      const [patientId] = [...matchedPatientIds];
+
+      return patientId
+        ? {
+            rowNumber,
+            name: row.name,
+            status: "duplicate",
+            errors: [],
+            patientId,
+            values: result.data,
+          }
+        : {
+            rowNumber,
+            name: row.name,
+            status: "new",
+            errors: [],
+            values: result.data,
+          };
+    });
+
+    const newRows = rows.filter((row) => row.status === "new");
+    const mergedRows =
+      parsedInput.duplicateStrategy === "merge"
+        ? rows.filter((row) => row.status === "duplicate")
+        : [];
+    const summary = {
+      rows: rows.map(({ rowNumber, name, status, errors }) => ({
+        rowNumber,
+        name,
+        status,
+        errors,
+      })),
+      importedCount: newRows.length,
+      mergedCount: mergedRows.length,
+      skippedCount: rows.length - newRows.length - mergedRows.length,
+    };
+
+    if (parsedInput.dryRun) {
+      return summary;
+    }
+
+    await db.transaction(async (tx) => {
+      if (newRows.length > 0) {
+        await tx.insert(patientsTable).values(
+          newRows.map((row) => ({
+            ...row.values,
+            clinicId,
+          })),
+        );
+      }
+
+      for (const row of mergedRows) {
+        // Optional columns missing from the file must not erase the data
+        // already stored.
+        const values = Object.fromEntries(
+          Object.entries(row.values).filter(([, value]) => value != null),
+        );
+
+        await tx
+          .update(patientsTable)
+          .set(values)
+          .where(eq(patientsTable.id, row.patientId));
+      }
+    });
+
+    revalidatePath("/patients", "layout");
+
+    return summary;
+  });
@@ -0,0 +1,28 @@
+import { z } from "zod";
+
+import { MAX_PATIENT_IMPORT_ROWS } from "@/app/(protected)/patients/_constants";
+
+export const importPatientsSchema = z.object({
+  rows: z
+    .array(
+      z.object({
+        name: z.string(),
+        email: z.string(),
+        phoneNumber: z.string(),
+        cpf: z.string(),
+        sex: z.string(),
+        birthDate: z.string(),
+        guardianName: z.string(),
+        guardianCpf: z.string(),
+        guardianPhoneNumber: z.string(),
+      }),
+    )
+    .min(1, { message: "O arquivo não possui linhas" })
+    .max(MAX_PATIENT_IMPORT_ROWS, {
+      message: `Importe no máximo ${MAX_PATIENT_IMPORT_ROWS} pacientes por vez`,
+    }),
+  duplicateStrategy: z.enum(["skip", "merge"]),
+  dryRun: z.boolean(),
+});
+
+export type ImportPatientsSchema = z.infer<typeof importPatientsSchema>;
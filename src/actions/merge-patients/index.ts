@@ -0,0 +1,155 @@
+"use server";
+
+import { eq, inArray } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+
+import { mergePatientsSchema } from "@/actions/merge-patients/schema";
+import { db } from "@/db";
+import {
+  appointmentSeriesTable,
+  appointmentsTable,
+  clinicalNotesTable,
+  patientDataRequestsTable,
+  patientMergesTable,
+  patientsTable,
+  waitlistEntriesTable,
+} from "@/db/schema";
+import { auth } from "@/lib/auth";
+import { actionClient } from "@/lib/safe-action";
+
+const mergeablePatientFields = [
+  "email",
+  "phoneNumber",
+  "cpf",
+  "birthDate",
+  "guardianName",
+  "guardianCpf",
+  "guardianPhoneNumber",
+] as const;
+
+export const mergePatientsAction = actionClient
+  .inputSchema(mergePatientsSchema)
+  .action(async ({ parsedInput }) => {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user) {
+      throw new Error("Usuário não autenticado");
+    }
+
+    if (!session.user.clinic?.id) {
+      throw new Error("Usuário não associado a uma clínica");
+    }
+
+    const patients = await db.query.patientsTable.findMany({
+      where: inArray(patientsTable.id, [
+        parsedInput.survivingPatientId,
+        parsedInput.mergedPatientId,
+      ]),
+    });
+    const survivingPatient = patients.find(
+      (patient) => patient.id === parsedInput.survivingPatientId,
+    );
+    const mergedPatient = patients.find(
+      (patient) => patient.id === parsedInput.mergedPatientId,
+    );
+
+    if (!survivingPatient || !mergedPatient) {
+      throw new Error("Paciente não encontrado");
+    }
+
+    if (
+      survivingPatient.clinicId !== session.user.clinic.id ||
+      mergedPatient.clinicId !== session.user.clinic.id
+    ) {
+      throw new Error("Você não tem permissão para mesclar estes pacientes");
+    }
+
+    if (survivingPatient.anonymizedAt || mergedPatient.anonymizedAt) {
+      throw new Error("Pacientes anonimizados não podem ser mesclados");
+    }
+
+    const clinicId = session.user.clinic.id;
+    // Data only the merged record has is carried over instead of being lost.
+    const missingPatientData = Object.fromEntries(
+      mergeablePatientFields
+        .filter((field) => !survivingPatient[field] && mergedPatient[field])
+        .map((field) => [field, mergedPatient[field]]),
+    );
+
+    // Every table that references a patient must be moved here, otherwise
+    // its rows are lost when the merged patient is deleted.
+    const movedAppointmentsCount = await db.transaction(async (tx) => {
+      const movedAppointments = await tx
+        .update(appointmentsTable)
+        .set({ patientId: survivingPatient.id })
+        .where(eq(appointmentsTable.patientId, mergedPatient.id))
+        .returning({ id: appointmentsTable.id });
+
+      await tx
+        .update(appointmentSeriesTable)
+        .set({ patientId: survivingPatient.id })
+        .where(eq(appointmentSeriesTable.patientId, mergedPatient.id));
+
+      await tx
+        .update(clinicalNotesTable)
+        .set({ patientId: survivingPatient.id })
+        .where(eq(clinicalNotesTable.patientId, mergedPatient.id));
+
+      await tx
+        .update(waitlistEntriesTable)
+        .set({ patientId: survivingPatient.id })
+        .where(eq(waitlistEntriesTable.patientId, mergedPatient.id));
+
+      await tx
+        .update(patientMergesTable)
+        .set({ survivingPatientId: survivingPatient.id })
+        .where(eq(patientMergesTable.survivingPatientId, mergedPatient.id));
+
+      await tx
+        .update(patientDataRequestsTable)
+        .set({ patientId: survivingPatient.id })
+        .where(eq(patientDataRequestsTable.patientId, mergedPatient.id));
+
+      await tx.insert(patientMergesTable).values({
+        mergedPatientId: mergedPatient.id,
+        mergedPatientData: {
+          name: mergedPatient.name,
+          email: mergedPatient.email,
+          phoneNumber: mergedPatient.phoneNumber,
+          sex: mergedPatient.sex,
+          cpf: mergedPatient.cpf,
+          birthDate: mergedPatient.birthDate,
+          guardianName: mergedPatient.guardianName,
+          guardianCpf: mergedPatient.guardianCpf,
+          guardianPhoneNumber: mergedPatient.guardianPhoneNumber,
+        },
+        movedAppointmentsCount: movedAppointments.length,
+        clinicId,
+        survivingPatientId: survivingPatient.id,
+        mergedByUserId: session.user.id,
+      });
+
+      await tx
+        .delete(patientsTable)
+        .where(eq(patientsTable.id, mergedPatient.id));
+
+      // Runs after the delete so the clinic-wide unique email, phone and CPF
+      // constraints do not see the value twice.
+      if (Object.keys(missingPatientData).length > 0) {
+        await tx
+          .update(patientsTable)
+          .set(missingPatientData)
+          .where(eq(patientsTable.id, survivingPatient.id));
+      }
+
+      return movedAppointments.length;
+    });
+
+    revalidatePath("/patients", "layout");
+    revalidatePath("/appointments", "layout");
+
+    return { movedAppointmentsCount };
+  });
@@ -0,0 +1,13 @@
+import { z } from "zod";
+
+export const mergePatientsSchema = z
+  .object({
+    survivingPatientId: z.string().uuid(),
+    mergedPatientId: z.string().uuid(),
+  })
+  .refine((data) => data.survivingPatientId !== data.mergedPatientId, {
+    message: "Selecione dois pacientes diferentes",
+    path: ["mergedPatientId"],
+  });
+
+export type MergePatientsSchema = z.infer<typeof mergePatientsSchema>;
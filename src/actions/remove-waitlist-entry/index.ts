@@ -0,0 +1,48 @@
+"use server";
+
+import { eq } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+import { z } from "zod";
+
+import { db } from "@/db";
+import { waitlistEntriesTable } from "@/db/schema";
+import { auth } from "@/lib/auth";
+import { actionClient } from "@/lib/safe-action";
+
+export const removeWaitlistEntryAction = actionClient
+  .inputSchema(
+    z.object({
+      id: z.string().uuid(),
+    }),
+  )
+  .action(async ({ parsedInput }) => {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user) {
+      throw new Error("Usuário não autenticado");
+    }
+
+    const waitlistEntry = await db.query.waitlistEntriesTable.findFirst({
+      where: eq(waitlistEntriesTable.id, parsedInput.id),
+    });
+
+    if (!waitlistEntry) {
+      throw new Error("Paciente não encontrado na lista de espera");
+    }
+
+    if (waitlistEntry.clinicId !== session.user.clinic?.id) {
+      throw new Error(
+        "Você não tem permissão para remover este paciente da lista de espera",
+      );
+    }
+
+    await db
+      .update(waitlistEntriesTable)
+      .set({ status: "removed" })
+      .where(eq(waitlistEntriesTable.id, parsedInput.id));
+
+    revalidatePath("/appointments/waitlist");
+  });
@@ -0,0 +1,93 @@
+"use server";
+
+import { eq } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+import { returnValidationErrors } from "next-safe-action";
+
+import { rescheduleAppointmentSchema } from "@/actions/reschedule-appointment/schema";
+import { canRescheduleAppointment } from "@/app/(protected)/appointments/_helpers/status";
+import {
+  checkAppointmentAvailability,
+  lockDoctorSchedule,
+} from "@/data/check-appointment-availability";
+import { db } from "@/db";
+import { appointmentReschedulesTable, appointmentsTable } from "@/db/schema";
+import { auth } from "@/lib/auth";
+import { actionClient } from "@/lib/safe-action";
+
+export const rescheduleAppointmentAction = actionClient
+  .inputSchema(rescheduleAppointmentSchema)
+  .action(async ({ parsedInput }) => {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user) {
+      throw new Error("Usuário não autenticado");
+    }
+
+    const appointment = await db.query.appointmentsTable.findFirst({
+      where: eq(appointmentsTable.id, parsedInput.id),
+      with: {
+        doctor: true,
+      },
+    });
+
+    if (!appointment) {
+      throw new Error("Agendamento não encontrado");
+    }
+
+    if (appointment.clinicId !== session.user.clinic?.id) {
+      throw new Error("Você não tem permissão para alterar este agendamento");
+    }
+
+    if (!canRescheduleAppointment(appointment.status)) {
+      returnValidationErrors(rescheduleAppointmentSchema, {
+        _errors: ["Apenas agendamentos em aberto podem ser reagendados."],
+      });
+    }
+
+    const timeZone = session.user.clinic.timeZone;
+
+    const availability = await db.transaction(async (tx) => {
+      await lockDoctorSchedule(tx, appointment.doctorId);
+
+      const availability = await checkAppointmentAvailability({
+        tx,
+        doctor: appointment.doctor,
+        date: parsedInput.date,
+        timeZone,
+        appointmentLength: appointment,
+        ignoreAppointmentIds: [appointment.id],
+      });
+
+      if (!availability.available) {
+        return availability;
+      }
+
+      await tx
+        .update(appointmentsTable)
+        .set({ date: parsedInput.date })
+        .where(eq(appointmentsTable.id, appointment.id));
+
+      await tx.insert(appointmentReschedulesTable).values({
+        appointmentId: appointment.id,
+        previousDate: appointment.date,
+        newDate: parsedInput.date,
+        reason: parsedInput.reason,
+        rescheduledByUserId: session.user.id,
+      });
+
+      return availability;
+    });
+
+    if (!availability.available) {
+      returnValidationErrors(rescheduleAppointmentSchema, {
+        date: { _errors: [availability.reason] },
+      });
+    }
+
+    revalidatePath("/appointments", "layout");
+    revalidatePath("/patients/[id]", "page");
+  });
@@ -0,0 +1,11 @@
+import { z } from "zod";
+
+export const rescheduleAppointmentSchema = z.object({
+  id: z.string().uuid(),
+  date: z.date({ message: "Data é obrigatória" }),
+  reason: z.string().trim().min(1, { message: "Motivo é obrigatório" }),
+});
+
+export type RescheduleAppointmentSchema = z.infer<
+  typeof rescheduleAppointmentSchema
+>;
@@ -0,0 +1,120 @@
+"use server";
+
+import { and, desc, eq, isNull } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+
+import { saveClinicalNoteSchema } from "@/actions/save-clinical-note/schema";
+import { canAccessClinicalNote } from "@/app/(protected)/appointments/_helpers/clinical-notes";
+import { db } from "@/db";
+import {
+  appointmentsTable,
+  clinicalNotesTable,
+  clinicalNoteVersionsTable,
+} from "@/db/schema";
+import { auth } from "@/lib/auth";
+import { actionClient } from "@/lib/safe-action";
+
+export const saveClinicalNoteAction = actionClient
+  .inputSchema(saveClinicalNoteSchema)
+  .action(async ({ parsedInput }) => {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user) {
+      throw new Error("Usuário não autenticado");
+    }
+
+    if (!session.user.clinic?.id) {
+      throw new Error("Usuário não associado a uma clínica");
+    }
+
+    const appointment = await db.query.appointmentsTable.findFirst({
+      where: eq(appointmentsTable.id, parsedInput.appointmentId),
+      with: {
+        doctor: true,
+        clinicalNote: {
+          with: {
+            versions: {
+              orderBy: [desc(clinicalNoteVersionsTable.version)],
+            },
+          },
+        },
+      },
+    });
+
+    if (!appointment) {
+      throw new Error("Agendamento não encontrado");
+    }
+
+    if (
+      appointment.clinicId !== session.user.clinic.id ||
+      !canAccessClinicalNote({
+        user: { id: session.user.id, clinicRole: session.user.clinic.role },
+        doctor: appointment.doctor,
+        clinicalNote: appointment.clinicalNote,
+      })
+    ) {
+      throw new Error("Você não tem permissão para acessar este prontuário");
+    }
+
+    const { appointmentId, sign, ...sections } = parsedInput;
+    const signedAt = sign ? new Date() : null;
+    const clinicId = session.user.clinic.id;
+
+    await db.transaction(async (tx) => {
+      if (!appointment.clinicalNote) {
+        const [clinicalNote] = await tx
+          .insert(clinicalNotesTable)
+          .values({
+            appointmentId,
+            patientId: appointment.patientId,
+            clinicId,
+            authorUserId: session.user.id,
+          })
+          .returning();
+
+        await tx.insert(clinicalNoteVersionsTable).values({
+          ...sections,
+          clinicalNoteId: clinicalNote.id,
+          version: 1,
+          createdByUserId: session.user.id,
+          signedAt,
+        });
+        return;
+      }
+
+      const [latestVersion] = appointment.clinicalNote.versions;
+
+      // Drafts are edited in place. Signed versions are never changed, so
+      // amendments to them are appended as a new version.
+      if (latestVersion && !latestVersion.signedAt) {
+        const updatedVersions = await tx
+          .update(clinicalNoteVersionsTable)
+          .set({ ...sections, signedAt })
+          .where(
+            and(
+              eq(clinicalNoteVersionsTable.id, latestVersion.id),
+              isNull(clinicalNoteVersionsTable.signedAt),
+            ),
+          )
+          .returning({ id: clinicalNoteVersionsTable.id });
+
+        if (updatedVersions.length === 0) {
+          throw new Error("O prontuário foi assinado por outro usuário");
+        }
+        return;
+      }
+
+      await tx.insert(clinicalNoteVersionsTable).values({
+        ...sections,
+        clinicalNoteId: appointment.clinicalNote.id,
+        version: (latestVersion?.version ?? 0) + 1,
+        createdByUserId: session.user.id,
+        signedAt,
+      });
+    });
+
+    revalidatePath("/appointments/[id]/clinical-note", "page");
+  });
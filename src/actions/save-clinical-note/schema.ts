@@ -0,0 +1,20 @@
+import { z } from "zod";
+
+import { clinicalNoteSections } from "@/app/(protected)/appointments/_constants";
+
+export const saveClinicalNoteSchema = z
+  .object({
+    appointmentId: z.string().uuid(),
+    chiefComplaint: z.string().trim(),
+    history: z.string().trim(),
+    physicalExam: z.string().trim(),
+    assessment: z.string().trim(),
+    plan: z.string().trim(),
+    sign: z.boolean(),
+  })
+  .refine((data) => clinicalNoteSections.some(({ key }) => data[key]), {
+    message: "Preencha ao menos uma seção do prontuário",
+    path: ["chiefComplaint"],
+  });
+
+export type SaveClinicalNoteSchema = z.infer<typeof saveClinicalNoteSchema>;
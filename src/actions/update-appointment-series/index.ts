@@ -0,0 +1,115 @@
+"use server";
+
+import dayjs from "dayjs";
+import { eq } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+
+import { updateAppointmentSeriesSchema } from "@/actions/update-appointment-series/schema";
+import { canRescheduleAppointment } from "@/app/(protected)/appointments/_helpers/status";
+import {
+  checkAppointmentAvailability,
+  lockDoctorSchedule,
+} from "@/data/check-appointment-availability";
+import { getSeriesAppointmentsInScope } from "@/data/get-series-appointments-in-scope";
+import { db } from "@/db";
+import { appointmentReschedulesTable, appointmentsTable } from "@/db/schema";
+import { auth } from "@/lib/auth";
+import { actionClient } from "@/lib/safe-action";
+
+export const updateAppointmentSeriesAction = actionClient
+  .inputSchema(updateAppointmentSeriesSchema)
+  .action(async ({ parsedInput }) => {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user) {
+      throw new Error("Usuário não autenticado");
+    }
+
+    const appointment = await db.query.appointmentsTable.findFirst({
+      where: eq(appointmentsTable.id, parsedInput.id),
+      with: {
+        doctor: true,
+      },
+    });
+
+    if (!appointment) {
+      throw new Error("Agendamento não encontrado");
+    }
+
+    if (appointment.clinicId !== session.user.clinic?.id) {
+      throw new Error("Você não tem permissão para alterar este agendamento");
+    }
+
+    const timeZone = session.user.clinic.timeZone;
+    // Every occurrence in scope is moved by the same offset as the selected
+    // one, so the series keeps its rhythm.
+    const offsetInMinutes = dayjs(parsedInput.date).diff(
+      appointment.date,
+      "minute",
+    );
+    const appointments = (
+      await getSeriesAppointmentsInScope(appointment, parsedInput.scope)
+    ).filter((appointment) => canRescheduleAppointment(appointment.status));
+    const moves = appointments.map((appointment) => ({
+      appointment,
+      newDate: dayjs(appointment.date).add(offsetInMinutes, "minute").toDate(),
+    }));
+
+    const conflicts = await db.transaction(async (tx) => {
+      await lockDoctorSchedule(tx, appointment.doctorId);
+
+      const availabilities = await Promise.all(
+        moves.map(async ({ appointment: movedAppointment, newDate }) => ({
+          date: newDate,
+          availability: await checkAppointmentAvailability({
+            tx,
+            doctor: appointment.doctor,
+            date: newDate,
+            timeZone,
+            appointmentLength: movedAppointment,
+            ignoreAppointmentIds: appointments.map(({ id }) => id),
+          }),
+        })),
+      );
+      const conflicts = availabilities.flatMap(({ date, availability }) =>
+        availability.available ? [] : [{ date, reason: availability.reason }],
+      );
+
+      if (conflicts.length > 0) {
+        return conflicts;
+      }
+
+      for (const { appointment, newDate } of moves) {
+        await tx
+          .update(appointmentsTable)
+          .set({ date: newDate })
+          .where(eq(appointmentsTable.id, appointment.id));
+      }
+
+      if (moves.length > 0) {
+        await tx.insert(appointmentReschedulesTable).values(
+          moves.map(({ appointment, newDate }) => ({
+            appointmentId: appointment.id,
+            previousDate: appointment.date,
+            newDate,
+            reason: parsedInput.reason,
+            rescheduledByUserId: session.user.id,
+          })),
+        );
+      }
+
+      return conflicts;
+    });
+
+    if (conflicts.length > 0) {
+      return { conflicts, updatedCount: 0 };
+    }
+
+    revalidatePath("/appointments", "layout");
+    revalidatePath("/patients/[id]", "page");
+
+    return { conflicts, updatedCount: moves.length };
+  });
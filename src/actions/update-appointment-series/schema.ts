@@ -0,0 +1,14 @@
+import { z } from "zod";
+
+import { appointmentSeriesScopes } from "@/app/(protected)/appointments/_constants";
+
+export const updateAppointmentSeriesSchema = z.object({
+  id: z.string().uuid(),
+  scope: z.enum(appointmentSeriesScopes),
+  date: z.date({ message: "Data é obrigatória" }),
+  reason: z.string().trim().min(1, { message: "Motivo é obrigatório" }),
+});
+
+export type UpdateAppointmentSeriesSchema = z.infer<
+  typeof updateAppointmentSeriesSchema
+>;
@@ -0,0 +1,112 @@
+"use server";
+
+import { and, eq } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+import { returnValidationErrors } from "next-safe-action";
+import { z } from "zod";
+
+import { canTransitionAppointmentStatus } from "@/app/(protected)/appointments/_helpers/status";
+import { getWaitlistSuggestions } from "@/data/get-waitlist-suggestions";
+import { db } from "@/db";
+import {
+  appointmentsTable,
+  appointmentStatusChangesTable,
+  appointmentStatusEnum,
+} from "@/db/schema";
+import { auth } from "@/lib/auth";
+import { actionClient } from "@/lib/safe-action";
+
+const updateAppointmentStatusSchema = z.object({
+  id: z.string().uuid(),
+  status: z.enum(appointmentStatusEnum.enumValues),
+});
+
+export const updateAppointmentStatusAction = actionClient
+  .inputSchema(updateAppointmentStatusSchema)
+  .action(async ({ parsedInput }) => {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user) {
+      throw new Error("Usuário não autenticado");
+    }
+
+    const appointment = await db.query.appointmentsTable.findFirst({
+      where: eq(appointmentsTable.id, parsedInput.id),
+      with: {
+        doctor: true,
+      },
+    });
+
+    if (!appointment) {
+      throw new Error("Agendamento não encontrado");
+    }
+
+    if (appointment.clinicId !== session.user.clinic?.id) {
+      throw new Error("Você não tem permissão para alterar este agendamento");
+    }
+
+    if (
+      !canTransitionAppointmentStatus(appointment.status, parsedInput.status)
+    ) {
+      returnValidationErrors(updateAppointmentStatusSchema, {
+        status: {
+          _errors: ["Não é possível alterar o agendamento para este status."],
+        },
+      });
+    }
+
+    const isUpdated = await db.transaction(async (tx) => {
+      // Only applies if nobody changed the status since it was read, so the
+      // transition checked above is the one being recorded.
+      const updatedAppointments = await tx
+        .update(appointmentsTable)
+        .set({ status: parsedInput.status })
+        .where(
+          and(
+            eq(appointmentsTable.id, appointment.id),
+            eq(appointmentsTable.status, appointment.status),
+          ),
+        )
+        .returning({ id: appointmentsTable.id });
+
+      if (updatedAppointments.length === 0) {
+        return false;
+      }
+
+      await tx.insert(appointmentStatusChangesTable).values({
+        appointmentId: appointment.id,
+        fromStatus: appointment.status,
+        toStatus: parsedInput.status,
+        changedByUserId: session.user.id,
+      });
+
+      return true;
+    });
+
+    if (!isUpdated) {
+      returnValidationErrors(updateAppointmentStatusSchema, {
+        status: {
+          _errors: [
+            "O status do agendamento foi alterado por outra pessoa. Atualize a página e tente novamente.",
+          ],
+        },
+      });
+    }
+
+    revalidatePath("/appointments", "layout");
+    revalidatePath("/patients/[id]", "page");
+
+    // A cancelled future appointment frees a slot that may be offered to
+    // patients waiting for the same doctor or specialty.
+    const isFreedSlot =
+      parsedInput.status === "cancelled" && appointment.date > new Date();
+
+    return {
+      waitlistSuggestions: isFreedSlot
+        ? await getWaitlistSuggestions(appointment)
+        : [],
+    };
+  });
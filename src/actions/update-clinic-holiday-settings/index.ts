@@ -0,0 +1,43 @@
+"use server";
+
+import { eq } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+import { z } from "zod";
+
+import { db } from "@/db";
+import { clinicsTable } from "@/db/schema";
+import { auth } from "@/lib/auth";
+import { actionClient } from "@/lib/safe-action";
+
+export const updateClinicHolidaySettingsAction = actionClient
+  .inputSchema(
+    z.object({
+      openOnHolidays: z.boolean(),
+    }),
+  )
+  .action(async ({ parsedInput }) => {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user) {
+      throw new Error("Usuário não autenticado");
+    }
+
+    if (!session.user.clinic?.id) {
+      throw new Error("Usuário não associado a uma clínica");
+    }
+
+    if (session.user.clinic.role !== "owner") {
+      throw new Error("Apenas o proprietário da clínica pode alterar feriados");
+    }
+
+    await db
+      .update(clinicsTable)
+      .set({ openOnHolidays: parsedInput.openOnHolidays })
+      .where(eq(clinicsTable.id, session.user.clinic.id));
+
+    revalidatePath("/holidays");
+    revalidatePath("/appointments", "layout");
+  });
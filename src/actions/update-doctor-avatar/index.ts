@@ -0,0 +1,71 @@
+"use server";
+
+import { randomUUID } from "node:crypto";
+
+import { eq } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+import { returnValidationErrors } from "next-safe-action";
+
+import { updateDoctorAvatarSchema } from "@/actions/update-doctor-avatar/schema";
+import { db } from "@/db";
+import { doctorsTable } from "@/db/schema";
+import { detectImageContentType, imageExtensions } from "@/helpers/image";
+import { auth } from "@/lib/auth";
+import { actionClient } from "@/lib/safe-action";
+import { getStorage } from "@/lib/storage";
+
+export const updateDoctorAvatarAction = actionClient
+  .inputSchema(updateDoctorAvatarSchema)
+  .action(async ({ parsedInput }) => {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user) {
+      throw new Error("Usuário não autenticado");
+    }
+
+    const doctor = await db.query.doctorsTable.findFirst({
+      where: eq(doctorsTable.id, parsedInput.doctorId),
+    });
+
+    if (!doctor) {
+      throw new Error("Médico não encontrado");
+    }
+
+    if (doctor.clinicId !== session.user.clinic?.id) {
+      throw new Error("Você não tem permissão para alterar este médico");
+    }
+
+    const storage = getStorage();
+    let avatarImageUrl: string | null = null;
+
+    if (parsedInput.avatar) {
+      const body = Buffer.from(await parsedInput.avatar.arrayBuffer());
+      const contentType = detectImageContentType(body);
+
+      if (!contentType) {
+        returnValidationErrors(updateDoctorAvatarSchema, {
+          avatar: { _errors: ["Envie uma imagem JPG, PNG ou WebP"] },
+        });
+      }
+
+      avatarImageUrl = await storage.upload({
+        key: `doctors/${doctor.id}/${randomUUID()}.${imageExtensions[contentType]}`,
+        body,
+        contentType,
+      });
+    }
+
+    await db
+      .update(doctorsTable)
+      .set({ avatarImageUrl })
+      .where(eq(doctorsTable.id, doctor.id));
+
+    if (doctor.avatarImageUrl) {
+      await storage.remove(doctor.avatarImageUrl);
+    }
+
+    revalidatePath("/doctors");
+  });
@@ -0,0 +1,22 @@
+import { z } from "zod";
+
+import {
+  DOCTOR_AVATAR_MAX_SIZE_IN_MB,
+  doctorAvatarContentTypes,
+} from "@/app/(protected)/doctors/_constants";
+
+export const updateDoctorAvatarSchema = z.object({
+  doctorId: z.string().uuid(),
+  // null removes the current photo.
+  avatar: z
+    .instanceof(File)
+    .refine((file) => doctorAvatarContentTypes.includes(file.type), {
+      message: "Envie uma imagem JPG, PNG ou WebP",
+    })
+    .refine((file) => file.size <= DOCTOR_AVATAR_MAX_SIZE_IN_MB * 1024 * 1024, {
+      message: `A imagem deve ter no máximo ${DOCTOR_AVATAR_MAX_SIZE_IN_MB} MB`,
+    })
+    .nullable(),
+});
+
+export type UpdateDoctorAvatarSchema = z.infer<typeof updateDoctorAvatarSchema>;
@@ -0,0 +1,124 @@
+"use server";
+
+import { and, eq } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+import { returnValidationErrors } from "next-safe-action";
+
+import { upsertAppointmentSchema } from "@/actions/upsert-appointment/schema";
+import {
+  checkAppointmentAvailability,
+  lockDoctorSchedule,
+} from "@/data/check-appointment-availability";
+import { db } from "@/db";
+import {
+  appointmentsTable,
+  doctorsTable,
+  patientsTable,
+  waitlistEntriesTable,
+} from "@/db/schema";
+import { auth } from "@/lib/auth";
+import { actionClient } from "@/lib/safe-action";
+
+export const upsertAppointmentAction = actionClient
+  .inputSchema(upsertAppointmentSchema)
+  .action(async ({ parsedInput }) => {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user) {
+      throw new Error("Usuário não autenticado");
+    }
+
+    if (!session.user.clinic?.id) {
+      throw new Error("Usuário não associado a uma clínica");
+    }
+
+    const [patient, doctor] = await Promise.all([
+      db.query.patientsTable.findFirst({
+        where: eq(patientsTable.id, parsedInput.patientId),
+      }),
+      db.query.doctorsTable.findFirst({
+        where: eq(doctorsTable.id, parsedInput.doctorId),
+      }),
+    ]);
+
+    if (!patient || patient.clinicId !== session.user.clinic.id) {
+      throw new Error("Paciente não encontrado");
+    }
+
+    if (!doctor || doctor.clinicId !== session.user.clinic.id) {
+      throw new Error("Médico não encontrado");
+    }
+
+    // The price is stored on the appointment when it is booked, so changing
+    // the doctor's price later does not rewrite the revenue of past visits.
+    const appointmentPriceInCents =
+      parsedInput.appointmentPriceInCents ?? doctor.appointmentPriceInCents;
+    const isPriceOverridden =
+      appointmentPriceInCents !== doctor.appointmentPriceInCents;
+
+    if (isPriceOverridden && !parsedInput.priceOverrideReason) {
+      returnValidationErrors(upsertAppointmentSchema, {
+        priceOverrideReason: {
+          _errors: ["Informe o motivo da alteração do valor da consulta."],
+        },
+      });
+    }
+
+    const clinicId = session.user.clinic.id;
+    const timeZone = session.user.clinic.timeZone;
+
+    const availability = await db.transaction(async (tx) => {
+      await lockDoctorSchedule(tx, doctor.id);
+
+      const availability = await checkAppointmentAvailability({
+        tx,
+        doctor,
+        date: parsedInput.date,
+        timeZone,
+      });
+
+      if (!availability.available) {
+        return availability;
+      }
+
+      await tx.insert(appointmentsTable).values({
+        patientId: parsedInput.patientId,
+        doctorId: parsedInput.doctorId,
+        date: parsedInput.date,
+        appointmentPriceInCents,
+        priceOverrideReason: isPriceOverridden
+          ? parsedInput.priceOverrideReason
+          : null,
+        appointmentDurationInMinutes: doctor.appointmentDurationInMinutes,
+        appointmentBufferInMinutes: doctor.appointmentBufferInMinutes,
+        clinicId,
+      });
+
+      if (parsedInput.waitlistEntryId) {
+        await tx
+          .update(waitlistEntriesTable)
+          .set({ status: "booked" })
+          .where(
+            and(
+              eq(waitlistEntriesTable.id, parsedInput.waitlistEntryId),
+              eq(waitlistEntriesTable.clinicId, clinicId),
+              eq(waitlistEntriesTable.patientId, parsedInput.patientId),
+            ),
+          );
+      }
+
+      return availability;
+    });
+
+    if (!availability.available) {
+      returnValidationErrors(upsertAppointmentSchema, {
+        date: { _errors: [availability.reason] },
+      });
+    }
+
+    revalidatePath("/appointments", "layout");
+    revalidatePath("/patients/[id]", "page");
+  });
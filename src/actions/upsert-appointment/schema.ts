@@ -0,0 +1,12 @@
+import { z } from "zod";
+
+export const upsertAppointmentSchema = z.object({
+  patientId: z.string().uuid({ message: "Paciente é obrigatório" }),
+  doctorId: z.string().uuid({ message: "Médico é obrigatório" }),
+  date: z.date({ message: "Data é obrigatória" }),
+  appointmentPriceInCents: z.number().int().min(0).optional(),
+  priceOverrideReason: z.string().trim().optional(),
+  waitlistEntryId: z.string().uuid().optional(),
+});
+
+export type UpsertAppointmentSchema = z.infer<typeof upsertAppointmentSchema>;
@@ -1,18 +1,21 @@
 "use server";
 
-import dayjs from "dayjs";
-import utc from "dayjs/plugin/utc";
+import { and, eq } from "drizzle-orm";
 import { revalidatePath } from "next/cache";
 import { headers } from "next/headers";
+import { returnValidationErrors } from "next-safe-action";
 
 import { upsertDoctorSchema } from "@/actions/upsert-doctor/schema";
 import { db } from "@/db";
-import { doctorsTable } from "@/db/schema";
+import {
+  doctorAvailabilitiesTable,
+  doctorsTable,
+  usersToClinicsTable,
+} from "@/db/schema";
+import { isUniqueConstraintViolation } from "@/helpers/database-errors";
 import { auth } from "@/lib/auth";
 import { actionClient } from "@/lib/safe-action";
 
-dayjs.extend(utc);
-
 export const upsertDoctorAction = actionClient
   .inputSchema(upsertDoctorSchema)
   .action(async ({ parsedInput }) => {
@@ -28,35 +31,98 @@ export const upsertDoctorAction = actionClient
       throw new Error("Usuário não associado a uma clínica");
     }
 
-    const availableFromTimeUTC = dayjs()
-      .set("hour", parseInt(parsedInput.availableFromTime.split(":")[0]))
-      .set("minute", parseInt(parsedInput.availableFromTime.split(":")[1]))
-      .set("second", parseInt(parsedInput.availableFromTime.split(":")[2]))
-      .utc();
-
-    const availableToTimeUTC = dayjs()
-      .set("hour", parseInt(parsedInput.availableToTime.split(":")[0]))
-      .set("minute", parseInt(parsedInput.availableToTime.split(":")[1]))
-      .set("second", parseInt(parsedInput.availableToTime.split(":")[2]))
-      .utc();
-
-    await db
-      .insert(doctorsTable)
-      .values({
-        ...parsedInput,
-        id: parsedInput.id,
-        clinicId: session?.user.clinic?.id,
-        availableFromTime: availableFromTimeUTC.format("HH:mm:ss"),
-        availableToTime: availableToTimeUTC.format("HH:mm:ss"),
-      })
-      .onConflictDoUpdate({
-        target: [doctorsTable.id],
-        set: {
-          ...parsedInput,
-          availableFromTime: availableFromTimeUTC.format("HH:mm:ss"),
-          availableToTime: availableToTimeUTC.format("HH:mm:ss"),
-        },
+    const doctor = parsedInput.id
+      ? await db.query.doctorsTable.findFirst({
+          where: eq(doctorsTable.id, parsedInput.id),
+        })
+      : undefined;
+
+    if (doctor && doctor.clinicId !== session.user.clinic.id) {
+      throw new Error("Você não tem permissão para alterar este médico");
+    }
+
+    if (parsedInput.userId !== undefined) {
+      // The linked account gets access to the doctor's clinical notes, so
+      // only the clinic owner may change it.
+      if (
+        (doctor?.userId ?? null) !== parsedInput.userId &&
+        session.user.clinic.role !== "owner"
+      ) {
+        throw new Error(
+          "Apenas o proprietário da clínica pode vincular usuários a médicos",
+        );
+      }
+
+      if (parsedInput.userId) {
+        const member = await db.query.usersToClinicsTable.findFirst({
+          where: and(
+            eq(usersToClinicsTable.userId, parsedInput.userId),
+            eq(usersToClinicsTable.clinicId, session.user.clinic.id),
+          ),
+        });
+
+        if (!member) {
+          throw new Error("Usuário não pertence a esta clínica");
+        }
+      }
+    }
+
+    const { availabilities, ...doctorData } = parsedInput;
+    const clinicId = session.user.clinic.id;
+
+    let upsertedDoctorId: string;
+
+    try {
+      upsertedDoctorId = await db.transaction(async (tx) => {
+        const [upsertedDoctor] = await tx
+          .insert(doctorsTable)
+          .values({
+            ...doctorData,
+            id: doctorData.id,
+            clinicId,
+          })
+          .onConflictDoUpdate({
+            target: [doctorsTable.id],
+            set: {
+              ...doctorData,
+            },
+          })
+          .returning({ id: doctorsTable.id });
+
+        // The editor always sends the full week, so windows are replaced.
+        await tx
+          .delete(doctorAvailabilitiesTable)
+          .where(eq(doctorAvailabilitiesTable.doctorId, upsertedDoctor.id));
+
+        await tx.insert(doctorAvailabilitiesTable).values(
+          availabilities.map((availability) => ({
+            doctorId: upsertedDoctor.id,
+            weekDay: availability.weekDay,
+            fromTime: availability.fromTime,
+            toTime: availability.toTime,
+          })),
+        );
+
+        return upsertedDoctor.id;
       });
+    } catch (error) {
+      if (
+        isUniqueConstraintViolation(
+          error,
+          "doctors_clinic_id_crm_number_crm_state_unique",
+        )
+      ) {
+        returnValidationErrors(upsertDoctorSchema, {
+          crmNumber: {
+            _errors: ["Já existe um médico com este CRM na clínica."],
+          },
+        });
+      }
+
+      throw error;
+    }
 
     revalidatePath("/doctors");
+
+    return { id: upsertedDoctorId };
   });
@@ -1,34 +1,73 @@
 import { z } from "zod";
 
-export const upsertDoctorSchema = z
-  .object({
-    id: z.string().uuid().optional(),
-    name: z.string().trim().min(1, { message: "Nome é obrigatório" }),
-    specialty: z
-      .string()
-      .trim()
-      .min(1, { message: "Especialidade é obrigatória" }),
-    appointmentPriceInCents: z
-      .number()
-      .min(1, { message: "Preço da consulta é obrigatório" }),
-    availableFromWeekDay: z.number().min(0).max(6),
-    availableToWeekDay: z.number().min(0).max(6),
-    availableFromTime: z
-      .string()
-      .min(1, { message: "Hora de início é obrigatória" }),
-    availableToTime: z
-      .string()
-      .min(1, { message: "Hora de término é obrigatória" }),
-  })
-  .refine(
-    (data) => {
-      return data.availableFromTime < data.availableToTime;
-    },
-    {
-      message:
-        "O horário de início não pode ser anterior ao horário de término.",
-      path: ["availableToTime"],
-    },
-  );
+import {
+  MAX_APPOINTMENT_BUFFER_IN_MINUTES,
+  MAX_APPOINTMENT_DURATION_IN_MINUTES,
+} from "@/app/(protected)/doctors/_constants";
+import { findOverlappingAvailability } from "@/app/(protected)/doctors/_helpers/availability";
+import { brazilianStateEnum } from "@/db/schema";
+import { isValidCrmNumber, normalizeCrmNumber } from "@/helpers/crm";
+
+export const upsertDoctorSchema = z.object({
+  id: z.string().uuid().optional(),
+  name: z.string().trim().min(1, { message: "Nome é obrigatório" }),
+  specialty: z
+    .string()
+    .trim()
+    .min(1, { message: "Especialidade é obrigatória" }),
+  crmNumber: z
+    .string()
+    .trim()
+    .min(1, { message: "CRM é obrigatório" })
+    .refine(isValidCrmNumber, { message: "CRM inválido" })
+    .transform(normalizeCrmNumber),
+  crmState: z.enum(brazilianStateEnum.enumValues, {
+    message: "UF do CRM é obrigatória",
+  }),
+  appointmentPriceInCents: z
+    .number()
+    .min(1, { message: "Preço da consulta é obrigatório" }),
+  appointmentDurationInMinutes: z
+    .number()
+    .int()
+    .min(5, { message: "Duração da consulta é obrigatória" })
+    .max(MAX_APPOINTMENT_DURATION_IN_MINUTES),
+  appointmentBufferInMinutes: z
+    .number()
+    .int()
+    .min(0)
+    .max(MAX_APPOINTMENT_BUFFER_IN_MINUTES),
+  // Wall-clock times in the clinic's time zone.
+  availabilities: z
+    .array(
+      z
+        .object({
+          weekDay: z.number().int().min(0).max(6),
+          fromTime: z
+            .string()
+            .min(1, { message: "Hora de início é obrigatória" }),
+          toTime: z
+            .string()
+            .min(1, { message: "Hora de término é obrigatória" }),
+        })
+        .refine((data) => data.fromTime < data.toTime, {
+          message: "O horário de término deve ser posterior ao de início.",
+          path: ["toTime"],
+        }),
+    )
+    .min(1, { message: "Adicione ao menos um horário de atendimento" })
+    .superRefine((availabilities, ctx) => {
+      const overlappingIndex = findOverlappingAvailability(availabilities);
+
+      if (overlappingIndex !== -1) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "Este horário se sobrepõe a outro no mesmo dia.",
+          path: [overlappingIndex, "fromTime"],
+        });
+      }
+    }),
+  userId: z.string().nullable().optional(),
+});
 
 export type UpsertDoctorSchema = z.infer<typeof upsertDoctorSchema>;
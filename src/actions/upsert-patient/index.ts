@@ -0,0 +1,98 @@
+"use server";
+
+import { eq } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+import { returnValidationErrors } from "next-safe-action";
+
+import { upsertPatientSchema } from "@/actions/upsert-patient/schema";
+import { db } from "@/db";
+import { patientsTable } from "@/db/schema";
+import { isUniqueConstraintViolation } from "@/helpers/database-errors";
+import { auth } from "@/lib/auth";
+import { actionClient } from "@/lib/safe-action";
+
+export const upsertPatientAction = actionClient
+  .inputSchema(upsertPatientSchema)
+  .action(async ({ parsedInput }) => {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user) {
+      throw new Error("Usuário não autenticado");
+    }
+
+    if (!session.user.clinic?.id) {
+      throw new Error("Usuário não associado a uma clínica");
+    }
+
+    if (parsedInput.id) {
+      const patient = await db.query.patientsTable.findFirst({
+        where: eq(patientsTable.id, parsedInput.id),
+      });
+
+      if (!patient) {
+        throw new Error("Paciente não encontrado");
+      }
+
+      if (patient.clinicId !== session.user.clinic.id) {
+        throw new Error("Você não tem permissão para alterar este paciente");
+      }
+
+      if (patient.anonymizedAt) {
+        throw new Error("Pacientes anonimizados não podem ser alterados");
+      }
+    }
+
+    try {
+      await db
+        .insert(patientsTable)
+        .values({
+          ...parsedInput,
+          id: parsedInput.id,
+          clinicId: session.user.clinic.id,
+        })
+        .onConflictDoUpdate({
+          target: [patientsTable.id],
+          set: {
+            ...parsedInput,
+          },
+        });
+    } catch (error) {
+      if (
+        isUniqueConstraintViolation(error, "patients_clinic_id_email_unique")
+      ) {
+        returnValidationErrors(upsertPatientSchema, {
+          email: {
+            _errors: ["Já existe um paciente com este e-mail na clínica."],
+          },
+        });
+      }
+
+      if (
+        isUniqueConstraintViolation(
+          error,
+          "patients_clinic_id_phone_number_unique",
+        )
+      ) {
+        returnValidationErrors(upsertPatientSchema, {
+          phoneNumber: {
+            _errors: ["Já existe um paciente com este telefone na clínica."],
+          },
+        });
+      }
+
+      if (isUniqueConstraintViolation(error, "patients_clinic_id_cpf_unique")) {
+        returnValidationErrors(upsertPatientSchema, {
+          cpf: {
+            _errors: ["Já existe um paciente com este CPF na clínica."],
+          },
+        });
+      }
+
+      throw error;
+    }
+
+    revalidatePath("/patients", "layout");
+  });
@@ -0,0 +1,91 @@
+import dayjs from "dayjs";
+import { z } from "zod";
+
+import { isMinorPatient } from "@/app/(protected)/patients/_helpers/age";
+import { patientSexEnum } from "@/db/schema";
+import { isValidCpf, normalizeCpf } from "@/helpers/cpf";
+import {
+  isValidPhoneNumber,
+  normalizePhoneNumber,
+} from "@/helpers/phone-number";
+
+export const upsertPatientSchema = z
+  .object({
+    id: z.string().uuid().optional(),
+    name: z.string().trim().min(1, { message: "Nome é obrigatório" }),
+    email: z.string().trim().email({ message: "E-mail inválido" }),
+    phoneNumber: z
+      .string()
+      .trim()
+      .min(1, { message: "Número de telefone é obrigatório" })
+      .refine(isValidPhoneNumber, { message: "Número de telefone inválido" })
+      .transform(normalizePhoneNumber),
+    cpf: z
+      .string()
+      .trim()
+      .refine((cpf) => !cpf || isValidCpf(cpf), { message: "CPF inválido" })
+      .transform((cpf) => (cpf ? normalizeCpf(cpf) : null))
+      .optional(),
+    birthDate: z
+      .string()
+      .date("Data de nascimento inválida")
+      .refine((birthDate) => !dayjs(birthDate).isAfter(dayjs(), "day"), {
+        message: "A data de nascimento não pode ser futura",
+      })
+      .optional()
+      .or(z.literal("").transform(() => undefined)),
+    guardianName: z.string().trim().optional(),
+    guardianCpf: z.string().trim().optional(),
+    guardianPhoneNumber: z.string().trim().optional(),
+    sex: z.enum(patientSexEnum.enumValues, { message: "Sexo é obrigatório" }),
+  })
+  .superRefine((data, ctx) => {
+    if (!isMinorPatient({ birthDate: data.birthDate ?? null })) {
+      return;
+    }
+
+    if (!data.guardianName) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Nome do responsável é obrigatório para menores de idade",
+        path: ["guardianName"],
+      });
+    }
+
+    if (!data.guardianCpf || !isValidCpf(data.guardianCpf)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "CPF do responsável inválido",
+        path: ["guardianCpf"],
+      });
+    }
+
+    if (
+      !data.guardianPhoneNumber ||
+      !isValidPhoneNumber(data.guardianPhoneNumber)
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Telefone do responsável inválido",
+        path: ["guardianPhoneNumber"],
+      });
+    }
+  })
+  .transform((data) => {
+    // Guardian data is only kept while the patient is a minor.
+    const isMinor = isMinorPatient({ birthDate: data.birthDate ?? null });
+
+    return {
+      ...data,
+      birthDate: data.birthDate ?? null,
+      guardianName: isMinor ? data.guardianName : null,
+      guardianCpf:
+        isMinor && data.guardianCpf ? normalizeCpf(data.guardianCpf) : null,
+      guardianPhoneNumber:
+        isMinor && data.guardianPhoneNumber
+          ? normalizePhoneNumber(data.guardianPhoneNumber)
+          : null,
+    };
+  });
+
+export type UpsertPatientSchema = z.infer<typeof upsertPatientSchema>;
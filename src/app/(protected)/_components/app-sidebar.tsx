@@ -2,6 +2,7 @@
 
 import {
   CalendarDays,
+  CalendarX,
   LayoutDashboard,
   LogOut,
   Stethoscope,
@@ -54,6 +55,11 @@ const items = [
     url: "/patients",
     icon: UserRound,
   },
+  {
+    title: "Feriados",
+    url: "/holidays",
+    icon: CalendarX,
+  },
   // {
   //   title: "Settings",
   //   url: "#",
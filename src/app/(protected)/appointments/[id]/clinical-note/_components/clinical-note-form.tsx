@@ -0,0 +1,123 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useAction } from "next-safe-action/hooks";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+import { z } from "zod";
+
+import { saveClinicalNoteAction } from "@/actions/save-clinical-note";
+import { clinicalNoteSections } from "@/app/(protected)/appointments/_constants";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Textarea } from "@/components/ui/textarea";
+import { clinicalNoteVersionsTable } from "@/db/schema";
+
+const formSchema = z
+  .object({
+    chiefComplaint: z.string().trim(),
+    history: z.string().trim(),
+    physicalExam: z.string().trim(),
+    assessment: z.string().trim(),
+    plan: z.string().trim(),
+  })
+  .refine((data) => clinicalNoteSections.some(({ key }) => data[key]), {
+    message: "Preencha ao menos uma seção do prontuário",
+    path: ["chiefComplaint"],
+  });
+
+interface ClinicalNoteFormProps {
+  appointmentId: string;
+  latestVersion?: typeof clinicalNoteVersionsTable.$inferSelect;
+}
+
+const ClinicalNoteForm = ({
+  appointmentId,
+  latestVersion,
+}: ClinicalNoteFormProps) => {
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      chiefComplaint: latestVersion?.chiefComplaint ?? "",
+      history: latestVersion?.history ?? "",
+      physicalExam: latestVersion?.physicalExam ?? "",
+      assessment: latestVersion?.assessment ?? "",
+      plan: latestVersion?.plan ?? "",
+    },
+  });
+  const saveClinicalNote = useAction(saveClinicalNoteAction, {
+    onSuccess: ({ input }) => {
+      toast.success(
+        input.sign
+          ? "Prontuário assinado com sucesso!"
+          : "Rascunho salvo com sucesso!",
+      );
+      form.reset(form.getValues());
+    },
+    onError: () => {
+      toast.error("Erro ao salvar prontuário.");
+    },
+  });
+  // Saving an unchanged signed note would only append a duplicate version.
+  const isUnchangedSignedNote =
+    !!latestVersion?.signedAt && !form.formState.isDirty;
+
+  const onSubmit = (values: z.infer<typeof formSchema>, sign: boolean) => {
+    saveClinicalNote.execute({ ...values, appointmentId, sign });
+  };
+
+  return (
+    <Form {...form}>
+      <form className="space-y-6">
+        {clinicalNoteSections.map(({ key, label }) => (
+          <FormField
+            key={key}
+            control={form.control}
+            name={key}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{label}</FormLabel>
+                <FormControl>
+                  <Textarea className="min-h-24" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ))}
+        {latestVersion?.signedAt && (
+          <p className="text-muted-foreground text-sm">
+            A versão {latestVersion.version} está assinada. Alterações serão
+            registradas como uma nova versão.
+          </p>
+        )}
+        <div className="flex justify-end gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            disabled={saveClinicalNote.isPending || isUnchangedSignedNote}
+            onClick={form.handleSubmit((values) => onSubmit(values, false))}
+          >
+            Salvar rascunho
+          </Button>
+          <Button
+            type="button"
+            disabled={saveClinicalNote.isPending || isUnchangedSignedNote}
+            onClick={form.handleSubmit((values) => onSubmit(values, true))}
+          >
+            {saveClinicalNote.isPending ? "Salvando..." : "Assinar"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default ClinicalNoteForm;
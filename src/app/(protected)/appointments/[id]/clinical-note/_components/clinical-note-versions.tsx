@@ -0,0 +1,64 @@
+import { clinicalNoteSections } from "@/app/(protected)/appointments/_constants";
+import { Badge } from "@/components/ui/badge";
+import { clinicalNoteVersionsTable } from "@/db/schema";
+import { toClinicTime } from "@/helpers/time-zone";
+
+interface ClinicalNoteVersionsProps {
+  versions: (typeof clinicalNoteVersionsTable.$inferSelect & {
+    createdBy: { name: string } | null;
+  })[];
+  timeZone: string;
+}
+
+const ClinicalNoteVersions = ({
+  versions,
+  timeZone,
+}: ClinicalNoteVersionsProps) => {
+  if (versions.length === 0) {
+    return (
+      <p className="text-muted-foreground text-sm">
+        Nenhum registro para este atendimento.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="space-y-6">
+      {versions.map((version) => (
+        <li key={version.id} className="space-y-3 text-sm">
+          <div className="flex items-center gap-2">
+            <span className="font-medium">Versão {version.version}</span>
+            {version.signedAt ? (
+              <Badge variant="outline">
+                Assinada em{" "}
+                {toClinicTime(version.signedAt, timeZone).format(
+                  "DD/MM/YYYY [às] HH:mm",
+                )}
+              </Badge>
+            ) : (
+              <Badge variant="secondary">Rascunho</Badge>
+            )}
+          </div>
+          <p className="text-muted-foreground">
+            Por {version.createdBy?.name ?? "usuário removido"} em{" "}
+            {toClinicTime(version.createdAt, timeZone).format(
+              "DD/MM/YYYY [às] HH:mm",
+            )}
+          </p>
+          <dl className="space-y-2">
+            {clinicalNoteSections
+              .filter(({ key }) => version[key])
+              .map(({ key, label }) => (
+                <div key={key}>
+                  <dt className="text-muted-foreground text-xs">{label}</dt>
+                  <dd className="whitespace-pre-wrap">{version[key]}</dd>
+                </div>
+              ))}
+          </dl>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default ClinicalNoteVersions;
@@ -0,0 +1,158 @@
+import { desc, eq } from "drizzle-orm";
+import { ArrowLeftIcon } from "lucide-react";
+import { headers } from "next/headers";
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+import { z } from "zod";
+
+import { canAccessClinicalNote } from "@/app/(protected)/appointments/_helpers/clinical-notes";
+import ClinicalNoteForm from "@/app/(protected)/appointments/[id]/clinical-note/_components/clinical-note-form";
+import ClinicalNoteVersions from "@/app/(protected)/appointments/[id]/clinical-note/_components/clinical-note-versions";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  PageActions,
+  PageContainer,
+  PageContent,
+  PageDescription,
+  PageHeader,
+  PageHeaderContent,
+  PageTitle,
+} from "@/components/ui/page-container";
+import { db } from "@/db";
+import { appointmentsTable, clinicalNoteVersionsTable } from "@/db/schema";
+import { formatCrm } from "@/helpers/crm";
+import { toClinicTime } from "@/helpers/time-zone";
+import { auth } from "@/lib/auth";
+
+interface ClinicalNotePageProps {
+  params: Promise<{ id: string }>;
+}
+
+const ClinicalNotePage = async ({ params }: ClinicalNotePageProps) => {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session?.user) {
+    redirect("/authentication");
+  }
+
+  if (!session?.user.clinic) {
+    redirect("/clinic-form");
+  }
+
+  const { id } = await params;
+
+  if (!z.string().uuid().safeParse(id).success) {
+    notFound();
+  }
+
+  const appointment = await db.query.appointmentsTable.findFirst({
+    where: eq(appointmentsTable.id, id),
+    with: {
+      patient: true,
+      doctor: true,
+      clinicalNote: {
+        with: {
+          versions: {
+            with: {
+              createdBy: {
+                columns: {
+                  name: true,
+                },
+              },
+            },
+            orderBy: [desc(clinicalNoteVersionsTable.version)],
+          },
+        },
+      },
+    },
+  });
+
+  if (!appointment || appointment.clinicId !== session.user.clinic.id) {
+    notFound();
+  }
+
+  const hasAccess = canAccessClinicalNote({
+    user: { id: session.user.id, clinicRole: session.user.clinic.role },
+    doctor: appointment.doctor,
+    clinicalNote: appointment.clinicalNote,
+  });
+  const versions = appointment.clinicalNote?.versions ?? [];
+  const doctorCrm = formatCrm(appointment.doctor);
+
+  return (
+    <PageContainer>
+      <PageHeader>
+        <PageHeaderContent>
+          <PageTitle>Prontuário</PageTitle>
+          <PageDescription>
+            {appointment.patient.name} com {appointment.doctor.name}
+            {doctorCrm && ` (${doctorCrm})`} em{" "}
+            {toClinicTime(
+              appointment.date,
+              session.user.clinic.timeZone,
+            ).format("DD/MM/YYYY [às] HH:mm")}
+          </PageDescription>
+        </PageHeaderContent>
+        <PageActions>
+          <Button variant="outline" asChild>
+            <Link href={`/patients/${appointment.patientId}`}>
+              <ArrowLeftIcon />
+              Voltar
+            </Link>
+          </Button>
+        </PageActions>
+      </PageHeader>
+      <PageContent>
+        {hasAccess ? (
+          <div className="grid gap-4 md:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle>Registro do atendimento</CardTitle>
+                <CardDescription>
+                  Após assinado, o registro não pode ser alterado.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ClinicalNoteForm
+                  appointmentId={appointment.id}
+                  latestVersion={versions[0]}
+                />
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle>Histórico de versões</CardTitle>
+                <CardDescription>
+                  Todas as versões assinadas são mantidas
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ClinicalNoteVersions
+                  versions={versions}
+                  timeZone={session.user.clinic.timeZone}
+                />
+              </CardContent>
+            </Card>
+          </div>
+        ) : (
+          <div className="text-muted-foreground text-center">
+            {appointment.clinicalNote
+              ? "Somente o proprietário da clínica e o médico que escreveu o prontuário podem acessá-lo."
+              : "Somente o proprietário da clínica e o médico do atendimento podem iniciar o prontuário."}
+          </div>
+        )}
+      </PageContent>
+    </PageContainer>
+  );
+};
+
+export default ClinicalNotePage;
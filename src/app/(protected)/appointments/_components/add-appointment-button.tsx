@@ -0,0 +1,45 @@
+"use client";
+
+import { Plus } from "lucide-react";
+import { useState } from "react";
+
+import UpsertAppointmentForm from "@/app/(protected)/appointments/_components/upsert-appointment-form";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogTrigger } from "@/components/ui/dialog";
+import { doctorsTable, patientsTable } from "@/db/schema";
+
+interface AddAppointmentButtonProps {
+  defaultPatientId?: string;
+  doctors: (typeof doctorsTable.$inferSelect)[];
+  patients: (typeof patientsTable.$inferSelect)[];
+  timeZone: string;
+}
+
+const AddAppointmentButton = ({
+  defaultPatientId,
+  doctors,
+  patients,
+  timeZone,
+}: AddAppointmentButtonProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button>
+          <Plus />
+          Novo agendamento
+        </Button>
+      </DialogTrigger>
+      <UpsertAppointmentForm
+        defaultPatientId={defaultPatientId}
+        doctors={doctors}
+        patients={patients}
+        timeZone={timeZone}
+        onSuccess={() => setIsOpen(false)}
+      />
+    </Dialog>
+  );
+};
+
+export default AddAppointmentButton;
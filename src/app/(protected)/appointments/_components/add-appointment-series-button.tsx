@@ -0,0 +1,42 @@
+"use client";
+
+import { RepeatIcon } from "lucide-react";
+import { useState } from "react";
+
+import CreateAppointmentSeriesForm from "@/app/(protected)/appointments/_components/create-appointment-series-form";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogTrigger } from "@/components/ui/dialog";
+import { doctorsTable, patientsTable } from "@/db/schema";
+
+interface AddAppointmentSeriesButtonProps {
+  doctors: (typeof doctorsTable.$inferSelect)[];
+  patients: (typeof patientsTable.$inferSelect)[];
+  timeZone: string;
+}
+
+const AddAppointmentSeriesButton = ({
+  doctors,
+  patients,
+  timeZone,
+}: AddAppointmentSeriesButtonProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <RepeatIcon />
+          Agendamento recorrente
+        </Button>
+      </DialogTrigger>
+      <CreateAppointmentSeriesForm
+        doctors={doctors}
+        patients={patients}
+        timeZone={timeZone}
+        onSuccess={() => setIsOpen(false)}
+      />
+    </Dialog>
+  );
+};
+
+export default AddAppointmentSeriesButton;
@@ -0,0 +1,120 @@
+import AppointmentStatusBadge from "@/app/(protected)/appointments/_components/appointment-status-badge";
+import { AppointmentWithRelations } from "@/app/(protected)/appointments/_types";
+import { getPatientContact } from "@/app/(protected)/patients/_helpers/contact";
+import {
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Separator } from "@/components/ui/separator";
+import { formatCrm } from "@/helpers/crm";
+import { formatCurrencyInCents } from "@/helpers/currency";
+import { formatPhoneNumber } from "@/helpers/phone-number";
+import { toClinicTime } from "@/helpers/time-zone";
+
+interface AppointmentDetailsProps {
+  appointment: AppointmentWithRelations;
+  timeZone: string;
+}
+
+const AppointmentDetails = ({
+  appointment,
+  timeZone,
+}: AppointmentDetailsProps) => {
+  const contact = getPatientContact(appointment.patient);
+  const doctorCrm = formatCrm(appointment.doctor);
+
+  return (
+    <DialogContent className="sm:max-w-[500px]">
+      <DialogHeader>
+        <DialogTitle>Detalhes do agendamento</DialogTitle>
+        <DialogDescription>
+          {toClinicTime(appointment.date, timeZone).format(
+            "dddd, DD/MM/YYYY [às] HH:mm",
+          )}
+        </DialogDescription>
+      </DialogHeader>
+      <div className="grid grid-cols-2 gap-4 text-sm">
+        <div>
+          <p className="text-muted-foreground">Paciente</p>
+          <p className="font-medium">{appointment.patient.name}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">
+            {contact.isGuardian ? "Contato (responsável)" : "Contato"}
+          </p>
+          <p className="font-medium">
+            {contact.isGuardian && `${contact.name} · `}
+            {contact.phoneNumber ? formatPhoneNumber(contact.phoneNumber) : "-"}
+          </p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Médico</p>
+          <p className="font-medium">{appointment.doctor.name}</p>
+          {doctorCrm && (
+            <p className="text-muted-foreground text-xs">{doctorCrm}</p>
+          )}
+        </div>
+        <div>
+          <p className="text-muted-foreground">Especialidade</p>
+          <p className="font-medium">{appointment.doctor.specialty}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Status</p>
+          <AppointmentStatusBadge status={appointment.status} />
+        </div>
+        <div>
+          <p className="text-muted-foreground">Valor</p>
+          <p className="font-medium">
+            {formatCurrencyInCents(appointment.appointmentPriceInCents)}
+          </p>
+        </div>
+        {appointment.priceOverrideReason && (
+          <div>
+            <p className="text-muted-foreground">
+              Motivo da alteração do valor
+            </p>
+            <p className="font-medium">{appointment.priceOverrideReason}</p>
+          </div>
+        )}
+      </div>
+      <Separator />
+      <div className="space-y-3">
+        <h4 className="text-sm font-medium">Histórico de reagendamentos</h4>
+        {appointment.reschedules.length > 0 ? (
+          <ul className="space-y-3">
+            {appointment.reschedules.map((reschedule) => (
+              <li key={reschedule.id} className="text-sm">
+                <p>
+                  {toClinicTime(reschedule.previousDate, timeZone).format(
+                    "DD/MM/YYYY HH:mm",
+                  )}{" "}
+                  →{" "}
+                  {toClinicTime(reschedule.newDate, timeZone).format(
+                    "DD/MM/YYYY HH:mm",
+                  )}
+                </p>
+                <p className="text-muted-foreground">
+                  Por {reschedule.rescheduledBy?.name ?? "usuário removido"} em{" "}
+                  {toClinicTime(reschedule.createdAt, timeZone).format(
+                    "DD/MM/YYYY [às] HH:mm",
+                  )}
+                </p>
+                <p className="text-muted-foreground">
+                  Motivo: {reschedule.reason}
+                </p>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-muted-foreground text-sm">
+            Este agendamento nunca foi reagendado.
+          </p>
+        )}
+      </div>
+    </DialogContent>
+  );
+};
+
+export default AppointmentDetails;
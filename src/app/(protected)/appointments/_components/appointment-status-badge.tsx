@@ -0,0 +1,33 @@
+import {
+  AppointmentStatus,
+  appointmentStatusLabels,
+} from "@/app/(protected)/appointments/_constants";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+
+const appointmentStatusClassNames: Record<AppointmentStatus, string> = {
+  scheduled: "border-slate-200 bg-slate-100 text-slate-700",
+  confirmed: "border-blue-200 bg-blue-100 text-blue-700",
+  checked_in: "border-violet-200 bg-violet-100 text-violet-700",
+  in_progress: "border-amber-200 bg-amber-100 text-amber-700",
+  completed: "border-green-200 bg-green-100 text-green-700",
+  no_show: "border-orange-200 bg-orange-100 text-orange-700",
+  cancelled: "border-red-200 bg-red-100 text-red-700",
+};
+
+interface AppointmentStatusBadgeProps {
+  status: AppointmentStatus;
+}
+
+const AppointmentStatusBadge = ({ status }: AppointmentStatusBadgeProps) => {
+  return (
+    <Badge
+      variant="outline"
+      className={cn(appointmentStatusClassNames[status])}
+    >
+      {appointmentStatusLabels[status]}
+    </Badge>
+  );
+};
+
+export default AppointmentStatusBadge;
@@ -0,0 +1,203 @@
+"use client";
+
+import {
+  CalendarClockIcon,
+  EyeIcon,
+  FileTextIcon,
+  MoreHorizontalIcon,
+  RepeatIcon,
+  XCircleIcon,
+} from "lucide-react";
+import Link from "next/link";
+import { useAction } from "next-safe-action/hooks";
+import { useState } from "react";
+import { toast } from "sonner";
+
+import { updateAppointmentStatusAction } from "@/actions/update-appointment-status";
+import AppointmentDetails from "@/app/(protected)/appointments/_components/appointment-details";
+import CancelAppointmentSeriesDialog from "@/app/(protected)/appointments/_components/cancel-appointment-series-dialog";
+import RescheduleAppointmentForm from "@/app/(protected)/appointments/_components/reschedule-appointment-form";
+import UpdateAppointmentSeriesForm from "@/app/(protected)/appointments/_components/update-appointment-series-form";
+import WaitlistSuggestions from "@/app/(protected)/appointments/_components/waitlist-suggestions";
+import { appointmentStatusLabels } from "@/app/(protected)/appointments/_constants";
+import {
+  canRescheduleAppointment,
+  getNextAppointmentStatuses,
+} from "@/app/(protected)/appointments/_helpers/status";
+import {
+  AppointmentWithRelations,
+  FreedSlot,
+} from "@/app/(protected)/appointments/_types";
+import { Button } from "@/components/ui/button";
+import { Dialog } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+interface AppointmentTableActionsProps {
+  appointment: AppointmentWithRelations;
+  timeZone: string;
+}
+
+const AppointmentTableActions = ({
+  appointment,
+  timeZone,
+}: AppointmentTableActionsProps) => {
+  const [isDetailsDialogOpen, setIsDetailsDialogOpen] = useState(false);
+  const [isRescheduleDialogOpen, setIsRescheduleDialogOpen] = useState(false);
+  const [isUpdateSeriesDialogOpen, setIsUpdateSeriesDialogOpen] =
+    useState(false);
+  const [isCancelSeriesDialogOpen, setIsCancelSeriesDialogOpen] =
+    useState(false);
+  // Slots freed by a cancellation are offered to the waitlist one at a time.
+  const [freedSlots, setFreedSlots] = useState<FreedSlot[]>([]);
+  const updateAppointmentStatus = useAction(updateAppointmentStatusAction, {
+    onSuccess: ({ data }) => {
+      toast.success("Status do agendamento atualizado com sucesso!");
+      setFreedSlots(
+        data?.waitlistSuggestions.length
+          ? [{ appointment, waitlistSuggestions: data.waitlistSuggestions }]
+          : [],
+      );
+    },
+    onError: ({ error }) => {
+      toast.error(
+        error.validationErrors?.status?._errors?.[0] ??
+          "Erro ao atualizar status do agendamento.",
+      );
+    },
+  });
+  const nextStatuses = getNextAppointmentStatuses(appointment.status);
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            disabled={updateAppointmentStatus.isPending}
+          >
+            <MoreHorizontalIcon />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={() => setIsDetailsDialogOpen(true)}>
+            <EyeIcon />
+            Ver detalhes
+          </DropdownMenuItem>
+          <DropdownMenuItem asChild>
+            <Link href={`/appointments/${appointment.id}/clinical-note`}>
+              <FileTextIcon />
+              Prontuário
+            </Link>
+          </DropdownMenuItem>
+          {canRescheduleAppointment(appointment.status) && (
+            <DropdownMenuItem onClick={() => setIsRescheduleDialogOpen(true)}>
+              <CalendarClockIcon />
+              Reagendar
+            </DropdownMenuItem>
+          )}
+          {appointment.seriesId && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>Recorrência</DropdownMenuLabel>
+              {canRescheduleAppointment(appointment.status) && (
+                <DropdownMenuItem
+                  onClick={() => setIsUpdateSeriesDialogOpen(true)}
+                >
+                  <RepeatIcon />
+                  Alterar recorrência
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuItem
+                onClick={() => setIsCancelSeriesDialogOpen(true)}
+              >
+                <XCircleIcon />
+                Cancelar recorrência
+              </DropdownMenuItem>
+            </>
+          )}
+          {nextStatuses.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>Alterar status</DropdownMenuLabel>
+              {nextStatuses.map((status) => (
+                <DropdownMenuItem
+                  key={status}
+                  onClick={() =>
+                    updateAppointmentStatus.execute({
+                      id: appointment.id,
+                      status,
+                    })
+                  }
+                >
+                  {appointmentStatusLabels[status]}
+                </DropdownMenuItem>
+              ))}
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <Dialog open={isDetailsDialogOpen} onOpenChange={setIsDetailsDialogOpen}>
+        <AppointmentDetails appointment={appointment} timeZone={timeZone} />
+      </Dialog>
+      <Dialog
+        open={isRescheduleDialogOpen}
+        onOpenChange={setIsRescheduleDialogOpen}
+      >
+        <RescheduleAppointmentForm
+          appointment={appointment}
+          timeZone={timeZone}
+          onSuccess={() => setIsRescheduleDialogOpen(false)}
+        />
+      </Dialog>
+      <Dialog
+        open={freedSlots.length > 0}
+        onOpenChange={(open) => !open && setFreedSlots(freedSlots.slice(1))}
+      >
+        {freedSlots.length > 0 && (
+          <WaitlistSuggestions
+            key={freedSlots[0].appointment.id}
+            {...freedSlots[0]}
+            timeZone={timeZone}
+            onSuccess={() => setFreedSlots(freedSlots.slice(1))}
+          />
+        )}
+      </Dialog>
+      {appointment.seriesId && (
+        <>
+          <Dialog
+            open={isUpdateSeriesDialogOpen}
+            onOpenChange={setIsUpdateSeriesDialogOpen}
+          >
+            <UpdateAppointmentSeriesForm
+              appointment={appointment}
+              timeZone={timeZone}
+              onSuccess={() => setIsUpdateSeriesDialogOpen(false)}
+            />
+          </Dialog>
+          <Dialog
+            open={isCancelSeriesDialogOpen}
+            onOpenChange={setIsCancelSeriesDialogOpen}
+          >
+            <CancelAppointmentSeriesDialog
+              appointment={appointment}
+              onSuccess={(freedSlots) => {
+                setIsCancelSeriesDialogOpen(false);
+                setFreedSlots(freedSlots);
+              }}
+            />
+          </Dialog>
+        </>
+      )}
+    </>
+  );
+};
+
+export default AppointmentTableActions;
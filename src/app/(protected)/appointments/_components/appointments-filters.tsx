@@ -0,0 +1,119 @@
+"use client";
+
+import { XIcon } from "lucide-react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { doctorsTable, patientsTable } from "@/db/schema";
+
+const ALL = "all";
+
+interface AppointmentsFiltersProps {
+  doctors: (typeof doctorsTable.$inferSelect)[];
+  patients: (typeof patientsTable.$inferSelect)[];
+}
+
+const AppointmentsFilters = ({
+  doctors,
+  patients,
+}: AppointmentsFiltersProps) => {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const setFilter = (key: string, value: string) => {
+    const params = new URLSearchParams(searchParams.toString());
+
+    if (value && value !== ALL) {
+      params.set(key, value);
+    } else {
+      params.delete(key);
+    }
+
+    router.push(`${pathname}?${params.toString()}`);
+  };
+
+  const hasFilters = ["doctorId", "patientId", "from", "to"].some((key) =>
+    searchParams.has(key),
+  );
+
+  return (
+    <div className="flex flex-wrap items-end gap-4">
+      <div className="space-y-2">
+        <Label>Médico</Label>
+        <Select
+          value={searchParams.get("doctorId") ?? ALL}
+          onValueChange={(value) => setFilter("doctorId", value)}
+        >
+          <SelectTrigger className="w-[200px]">
+            <SelectValue placeholder="Todos os médicos" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Todos os médicos</SelectItem>
+            {doctors.map((doctor) => (
+              <SelectItem key={doctor.id} value={doctor.id}>
+                {doctor.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label>Paciente</Label>
+        <Select
+          value={searchParams.get("patientId") ?? ALL}
+          onValueChange={(value) => setFilter("patientId", value)}
+        >
+          <SelectTrigger className="w-[200px]">
+            <SelectValue placeholder="Todos os pacientes" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Todos os pacientes</SelectItem>
+            {patients.map((patient) => (
+              <SelectItem key={patient.id} value={patient.id}>
+                {patient.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="from">De</Label>
+        <Input
+          id="from"
+          type="date"
+          className="w-[160px]"
+          value={searchParams.get("from") ?? ""}
+          onChange={(event) => setFilter("from", event.target.value)}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="to">Até</Label>
+        <Input
+          id="to"
+          type="date"
+          className="w-[160px]"
+          value={searchParams.get("to") ?? ""}
+          onChange={(event) => setFilter("to", event.target.value)}
+        />
+      </div>
+      {hasFilters && (
+        <Button variant="ghost" onClick={() => router.push(pathname)}>
+          <XIcon />
+          Limpar filtros
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default AppointmentsFilters;
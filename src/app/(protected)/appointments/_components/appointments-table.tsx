@@ -0,0 +1,95 @@
+"use client";
+
+import "dayjs/locale/pt-br";
+
+import dayjs from "dayjs";
+import { RepeatIcon } from "lucide-react";
+
+import AppointmentStatusBadge from "@/app/(protected)/appointments/_components/appointment-status-badge";
+import AppointmentTableActions from "@/app/(protected)/appointments/_components/appointment-table-actions";
+import { AppointmentWithRelations } from "@/app/(protected)/appointments/_types";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatCurrencyInCents } from "@/helpers/currency";
+import { toClinicTime } from "@/helpers/time-zone";
+
+dayjs.locale("pt-br");
+
+interface AppointmentsTableProps {
+  appointments: AppointmentWithRelations[];
+  emptyMessage: string;
+  timeZone: string;
+}
+
+const AppointmentsTable = ({
+  appointments,
+  emptyMessage,
+  timeZone,
+}: AppointmentsTableProps) => {
+  if (appointments.length === 0) {
+    return (
+      <div className="text-muted-foreground py-6 text-center">
+        {emptyMessage}
+      </div>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Data</TableHead>
+          <TableHead>Horário</TableHead>
+          <TableHead>Paciente</TableHead>
+          <TableHead>Médico</TableHead>
+          <TableHead>Especialidade</TableHead>
+          <TableHead>Valor</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead className="w-0" />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {appointments.map((appointment) => (
+          <TableRow key={appointment.id}>
+            <TableCell>
+              <div className="flex items-center gap-2">
+                {toClinicTime(appointment.date, timeZone).format(
+                  "ddd, DD/MM/YYYY",
+                )}
+                {appointment.seriesId && (
+                  <RepeatIcon className="text-muted-foreground size-3" />
+                )}
+              </div>
+            </TableCell>
+            <TableCell>
+              {toClinicTime(appointment.date, timeZone).format("HH:mm")}
+            </TableCell>
+            <TableCell>{appointment.patient.name}</TableCell>
+            <TableCell>{appointment.doctor.name}</TableCell>
+            <TableCell>{appointment.doctor.specialty}</TableCell>
+            <TableCell>
+              {formatCurrencyInCents(appointment.appointmentPriceInCents)}
+            </TableCell>
+            <TableCell>
+              <AppointmentStatusBadge status={appointment.status} />
+            </TableCell>
+            <TableCell>
+              <AppointmentTableActions
+                appointment={appointment}
+                timeZone={timeZone}
+              />
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default AppointmentsTable;
@@ -0,0 +1,97 @@
+import { useAction } from "next-safe-action/hooks";
+import { useState } from "react";
+import { toast } from "sonner";
+
+import { cancelAppointmentSeriesAction } from "@/actions/cancel-appointment-series";
+import {
+  AppointmentSeriesScope,
+  appointmentSeriesScopeLabels,
+  appointmentSeriesScopes,
+} from "@/app/(protected)/appointments/_constants";
+import { FreedSlot } from "@/app/(protected)/appointments/_types";
+import { Button } from "@/components/ui/button";
+import {
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { appointmentsTable } from "@/db/schema";
+
+interface CancelAppointmentSeriesDialogProps {
+  appointment: typeof appointmentsTable.$inferSelect;
+  onSuccess?: (freedSlots: FreedSlot[]) => void;
+}
+
+const CancelAppointmentSeriesDialog = ({
+  appointment,
+  onSuccess,
+}: CancelAppointmentSeriesDialogProps) => {
+  const [scope, setScope] = useState<AppointmentSeriesScope>("single");
+  const cancelAppointmentSeries = useAction(cancelAppointmentSeriesAction, {
+    onSuccess: ({ data }) => {
+      toast.success(`${data?.cancelledCount} agendamentos cancelados!`);
+      onSuccess?.(data?.freedSlots ?? []);
+    },
+    onError: () => {
+      toast.error("Erro ao cancelar agendamentos.");
+    },
+  });
+
+  return (
+    <DialogContent className="sm:max-w-[425px]">
+      <DialogHeader>
+        <DialogTitle>Cancelar recorrência</DialogTitle>
+        <DialogDescription>
+          Agendamentos já realizados não são alterados.
+        </DialogDescription>
+      </DialogHeader>
+      <div className="space-y-2">
+        <Label>Cancelar</Label>
+        <Select
+          value={scope}
+          onValueChange={(value) => setScope(value as AppointmentSeriesScope)}
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {appointmentSeriesScopes.map((scope) => (
+              <SelectItem key={scope} value={scope}>
+                {appointmentSeriesScopeLabels[scope]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <DialogFooter>
+        <DialogClose asChild>
+          <Button variant="outline">Voltar</Button>
+        </DialogClose>
+        <Button
+          variant="destructive"
+          disabled={cancelAppointmentSeries.isPending}
+          onClick={() =>
+            cancelAppointmentSeries.execute({ id: appointment.id, scope })
+          }
+        >
+          {cancelAppointmentSeries.isPending
+            ? "Cancelando..."
+            : "Cancelar agendamentos"}
+        </Button>
+      </DialogFooter>
+    </DialogContent>
+  );
+};
+
+export default CancelAppointmentSeriesDialog;
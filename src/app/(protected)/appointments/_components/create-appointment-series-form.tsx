@@ -0,0 +1,432 @@
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useAction } from "next-safe-action/hooks";
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+import { z } from "zod";
+
+import { createAppointmentSeriesAction } from "@/actions/create-appointment-series";
+import SeriesConflicts from "@/app/(protected)/appointments/_components/series-conflicts";
+import { weekDayLabels } from "@/app/(protected)/appointments/_constants";
+import { MAX_SERIES_OCCURRENCES } from "@/app/(protected)/appointments/_helpers/recurrence";
+import { useAvailableTimeSlots } from "@/app/(protected)/appointments/_hooks/use-available-time-slots";
+import { Button } from "@/components/ui/button";
+import {
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { doctorsTable, patientsTable } from "@/db/schema";
+import { toClinicTime } from "@/helpers/time-zone";
+
+const formSchema = z
+  .object({
+    patientId: z.string().min(1, { message: "Paciente é obrigatório" }),
+    doctorId: z.string().min(1, { message: "Médico é obrigatório" }),
+    startDate: z.string().min(1, { message: "Data de início é obrigatória" }),
+    time: z.string().min(1, { message: "Horário é obrigatório" }),
+    intervalInWeeks: z.string(),
+    weekDays: z
+      .array(z.number())
+      .min(1, { message: "Selecione ao menos um dia da semana" }),
+    endType: z.enum(["occurrences", "endsAt"]),
+    occurrences: z.string(),
+    endsAt: z.string(),
+  })
+  .superRefine((data, ctx) => {
+    if (data.endType === "occurrences") {
+      const occurrences = Number(data.occurrences);
+
+      if (
+        !Number.isInteger(occurrences) ||
+        occurrences < 1 ||
+        occurrences > MAX_SERIES_OCCURRENCES
+      ) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Informe entre 1 e ${MAX_SERIES_OCCURRENCES} ocorrências`,
+          path: ["occurrences"],
+        });
+      }
+    }
+
+    if (data.endType === "endsAt" && !data.endsAt) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Data final é obrigatória",
+        path: ["endsAt"],
+      });
+    }
+  });
+
+interface CreateAppointmentSeriesFormProps {
+  doctors: (typeof doctorsTable.$inferSelect)[];
+  patients: (typeof patientsTable.$inferSelect)[];
+  timeZone: string;
+  onSuccess?: () => void;
+}
+
+const CreateAppointmentSeriesForm = ({
+  doctors,
+  patients,
+  timeZone,
+  onSuccess,
+}: CreateAppointmentSeriesFormProps) => {
+  const [conflicts, setConflicts] = useState<{ date: Date; reason: string }[]>(
+    [],
+  );
+  const form = useForm<z.infer<typeof formSchema>>({
+    shouldUnregister: true,
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      patientId: "",
+      doctorId: "",
+      startDate: "",
+      time: "",
+      intervalInWeeks: "1",
+      weekDays: [],
+      endType: "occurrences",
+      occurrences: "4",
+      endsAt: "",
+    },
+  });
+  const [doctorId, startDate, endType] = form.watch([
+    "doctorId",
+    "startDate",
+    "endType",
+  ]);
+  const { timeSlots, isLoading: isLoadingTimeSlots } = useAvailableTimeSlots({
+    doctorId,
+    date: startDate,
+  });
+  const createAppointmentSeries = useAction(createAppointmentSeriesAction, {
+    onSuccess: ({ data }) => {
+      if (data && data.conflicts.length > 0) {
+        setConflicts(data.conflicts);
+        return;
+      }
+
+      toast.success(
+        `Recorrência criada com ${data?.createdCount} agendamentos!`,
+      );
+      onSuccess?.();
+    },
+    onError: ({ error }) => {
+      const endsAtErrors = error.validationErrors?.endsAt?._errors;
+
+      if (endsAtErrors?.length) {
+        form.setError("endsAt", { message: endsAtErrors[0] });
+
+        return;
+      }
+
+      toast.error(
+        error.validationErrors?._errors?.[0] ?? "Erro ao criar recorrência.",
+      );
+    },
+  });
+
+  const onSubmit = (values: z.infer<typeof formSchema>) => {
+    setConflicts([]);
+    createAppointmentSeries.execute({
+      patientId: values.patientId,
+      doctorId: values.doctorId,
+      startDate: new Date(values.time),
+      intervalInWeeks: parseInt(values.intervalInWeeks),
+      weekDays: values.weekDays,
+      occurrences:
+        values.endType === "occurrences"
+          ? parseInt(values.occurrences)
+          : undefined,
+      endsAt: values.endType === "endsAt" ? values.endsAt : undefined,
+    });
+  };
+
+  return (
+    <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[500px]">
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          <DialogHeader>
+            <DialogTitle>Agendamento recorrente</DialogTitle>
+            <DialogDescription>
+              Todas as ocorrências são verificadas antes de salvar.
+            </DialogDescription>
+          </DialogHeader>
+          <FormField
+            control={form.control}
+            name="patientId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Paciente</FormLabel>
+                <Select
+                  onValueChange={field.onChange}
+                  defaultValue={field.value}
+                >
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Selecione um paciente" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {patients.map((patient) => (
+                      <SelectItem key={patient.id} value={patient.id}>
+                        {patient.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="doctorId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Médico</FormLabel>
+                <Select
+                  onValueChange={(value) => {
+                    field.onChange(value);
+                    form.setValue("time", "");
+                  }}
+                  defaultValue={field.value}
+                >
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Selecione um médico" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {doctors.map((doctor) => (
+                      <SelectItem key={doctor.id} value={doctor.id}>
+                        {doctor.name} - {doctor.specialty}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="startDate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Primeira consulta</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="date"
+                      {...field}
+                      onChange={(event) => {
+                        field.onChange(event);
+                        form.setValue("time", "");
+                      }}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="time"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Horário</FormLabel>
+                  <Select
+                    onValueChange={field.onChange}
+                    value={field.value}
+                    disabled={!doctorId || !startDate || isLoadingTimeSlots}
+                  >
+                    <FormControl>
+                      <SelectTrigger className="w-full">
+                        <SelectValue
+                          placeholder={
+                            isLoadingTimeSlots ? "Carregando..." : "Selecione"
+                          }
+                        />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {timeSlots.length > 0 ? (
+                        timeSlots.map((timeSlot) => (
+                          <SelectItem key={timeSlot} value={timeSlot}>
+                            {toClinicTime(timeSlot, timeZone).format("HH:mm")}
+                          </SelectItem>
+                        ))
+                      ) : (
+                        <SelectItem value="none" disabled>
+                          Nenhum horário disponível
+                        </SelectItem>
+                      )}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+          <FormField
+            control={form.control}
+            name="intervalInWeeks"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Frequência</FormLabel>
+                <Select
+                  onValueChange={field.onChange}
+                  defaultValue={field.value}
+                >
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Selecione a frequência" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {[1, 2, 3, 4].map((interval) => (
+                      <SelectItem key={interval} value={interval.toString()}>
+                        {interval === 1
+                          ? "Toda semana"
+                          : `A cada ${interval} semanas`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="weekDays"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Dias da semana</FormLabel>
+                <div className="flex flex-wrap gap-2">
+                  {weekDayLabels.map((label, weekDay) => {
+                    const isSelected = field.value.includes(weekDay);
+
+                    return (
+                      <Button
+                        key={label}
+                        type="button"
+                        size="sm"
+                        variant={isSelected ? "default" : "outline"}
+                        onClick={() =>
+                          field.onChange(
+                            isSelected
+                              ? field.value.filter((day) => day !== weekDay)
+                              : [...field.value, weekDay],
+                          )
+                        }
+                      >
+                        {label.slice(0, 3)}
+                      </Button>
+                    );
+                  })}
+                </div>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="endType"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Termina</FormLabel>
+                  <Select
+                    onValueChange={field.onChange}
+                    defaultValue={field.value}
+                  >
+                    <FormControl>
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="occurrences">
+                        Após ocorrências
+                      </SelectItem>
+                      <SelectItem value="endsAt">Em uma data</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {endType === "occurrences" ? (
+              <FormField
+                control={form.control}
+                name="occurrences"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Ocorrências</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={1}
+                        max={MAX_SERIES_OCCURRENCES}
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ) : (
+              <FormField
+                control={form.control}
+                name="endsAt"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Data final</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+          </div>
+          <SeriesConflicts conflicts={conflicts} timeZone={timeZone} />
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button variant="outline">Cancelar</Button>
+            </DialogClose>
+            <Button type="submit" disabled={createAppointmentSeries.isPending}>
+              {createAppointmentSeries.isPending
+                ? "Verificando..."
+                : "Criar recorrência"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </Form>
+    </DialogContent>
+  );
+};
+
+export default CreateAppointmentSeriesForm;
@@ -0,0 +1,203 @@
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useAction } from "next-safe-action/hooks";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+import { z } from "zod";
+
+import { rescheduleAppointmentAction } from "@/actions/reschedule-appointment";
+import { useAvailableTimeSlots } from "@/app/(protected)/appointments/_hooks/use-available-time-slots";
+import { Button } from "@/components/ui/button";
+import {
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { appointmentsTable } from "@/db/schema";
+import { getClinicDate, toClinicTime } from "@/helpers/time-zone";
+
+const formSchema = z.object({
+  date: z.string().min(1, { message: "Data é obrigatória" }),
+  time: z.string().min(1, { message: "Horário é obrigatório" }),
+  reason: z.string().trim().min(1, { message: "Motivo é obrigatório" }),
+});
+
+interface RescheduleAppointmentFormProps {
+  appointment: typeof appointmentsTable.$inferSelect;
+  timeZone: string;
+  onSuccess?: () => void;
+}
+
+const RescheduleAppointmentForm = ({
+  appointment,
+  timeZone,
+  onSuccess,
+}: RescheduleAppointmentFormProps) => {
+  const form = useForm<z.infer<typeof formSchema>>({
+    shouldUnregister: true,
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      date: getClinicDate(appointment.date, timeZone),
+      time: "",
+      reason: "",
+    },
+  });
+  const date = form.watch("date");
+  const { timeSlots, isLoading: isLoadingTimeSlots } = useAvailableTimeSlots({
+    doctorId: appointment.doctorId,
+    date,
+    ignoreAppointmentId: appointment.id,
+  });
+  const rescheduleAppointment = useAction(rescheduleAppointmentAction, {
+    onSuccess: () => {
+      toast.success("Agendamento reagendado com sucesso!");
+      onSuccess?.();
+    },
+    onError: ({ error }) => {
+      const dateErrors = error.validationErrors?.date?._errors;
+
+      if (dateErrors?.length) {
+        form.setError("time", { message: dateErrors[0] });
+
+        return;
+      }
+
+      toast.error(
+        error.validationErrors?._errors?.[0] ??
+          "Erro ao reagendar agendamento.",
+      );
+    },
+  });
+
+  const onSubmit = (values: z.infer<typeof formSchema>) => {
+    rescheduleAppointment.execute({
+      id: appointment.id,
+      date: new Date(values.time),
+      reason: values.reason,
+    });
+  };
+
+  return (
+    <DialogContent className="sm:max-w-[425px]">
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
+          <DialogHeader>
+            <DialogTitle>Reagendar consulta</DialogTitle>
+            <DialogDescription>
+              Atualmente agendada para{" "}
+              {toClinicTime(appointment.date, timeZone).format(
+                "DD/MM/YYYY [às] HH:mm",
+              )}
+              .
+            </DialogDescription>
+          </DialogHeader>
+          <FormField
+            control={form.control}
+            name="date"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Nova data</FormLabel>
+                <FormControl>
+                  <Input
+                    type="date"
+                    {...field}
+                    onChange={(event) => {
+                      field.onChange(event);
+                      form.setValue("time", "");
+                    }}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="time"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Novo horário</FormLabel>
+                <Select
+                  onValueChange={field.onChange}
+                  value={field.value}
+                  disabled={!date || isLoadingTimeSlots}
+                >
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue
+                        placeholder={
+                          isLoadingTimeSlots
+                            ? "Carregando horários..."
+                            : "Selecione um horário"
+                        }
+                      />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {timeSlots.length > 0 ? (
+                      timeSlots.map((timeSlot) => (
+                        <SelectItem key={timeSlot} value={timeSlot}>
+                          {toClinicTime(timeSlot, timeZone).format("HH:mm")}
+                        </SelectItem>
+                      ))
+                    ) : (
+                      <SelectItem value="none" disabled>
+                        Nenhum horário disponível
+                      </SelectItem>
+                    )}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="reason"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Motivo</FormLabel>
+                <FormControl>
+                  <Textarea
+                    placeholder="Ex.: paciente solicitou outro horário"
+                    {...field}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button variant="outline">Cancelar</Button>
+            </DialogClose>
+            <Button type="submit" disabled={rescheduleAppointment.isPending}>
+              {rescheduleAppointment.isPending ? "Salvando..." : "Reagendar"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </Form>
+    </DialogContent>
+  );
+};
+
+export default RescheduleAppointmentForm;
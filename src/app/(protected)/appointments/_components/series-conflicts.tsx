@@ -0,0 +1,39 @@
+import { AlertTriangleIcon } from "lucide-react";
+
+import { toClinicTime } from "@/helpers/time-zone";
+
+interface SeriesConflictsProps {
+  conflicts: { date: Date; reason: string }[];
+  timeZone: string;
+}
+
+const SeriesConflicts = ({ conflicts, timeZone }: SeriesConflictsProps) => {
+  if (conflicts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="border-destructive/50 space-y-2 rounded-md border p-3 text-sm">
+      <p className="text-destructive flex items-center gap-2 font-medium">
+        <AlertTriangleIcon className="size-4" />
+        {conflicts.length === 1
+          ? "1 ocorrência possui conflito. Nada foi salvo."
+          : `${conflicts.length} ocorrências possuem conflito. Nada foi salvo.`}
+      </p>
+      <ul className="max-h-40 space-y-1 overflow-y-auto">
+        {conflicts.map((conflict) => (
+          <li key={conflict.date.toString()}>
+            <span className="font-medium">
+              {toClinicTime(conflict.date, timeZone).format(
+                "ddd, DD/MM/YYYY [às] HH:mm",
+              )}
+            </span>
+            <span className="text-muted-foreground"> — {conflict.reason}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default SeriesConflicts;
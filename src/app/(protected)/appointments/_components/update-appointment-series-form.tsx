@@ -0,0 +1,239 @@
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useAction } from "next-safe-action/hooks";
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+import { z } from "zod";
+
+import { updateAppointmentSeriesAction } from "@/actions/update-appointment-series";
+import SeriesConflicts from "@/app/(protected)/appointments/_components/series-conflicts";
+import {
+  appointmentSeriesScopeLabels,
+  appointmentSeriesScopes,
+} from "@/app/(protected)/appointments/_constants";
+import { useAvailableTimeSlots } from "@/app/(protected)/appointments/_hooks/use-available-time-slots";
+import { Button } from "@/components/ui/button";
+import {
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { appointmentsTable } from "@/db/schema";
+import { getClinicDate, toClinicTime } from "@/helpers/time-zone";
+
+const formSchema = z.object({
+  scope: z.enum(appointmentSeriesScopes),
+  date: z.string().min(1, { message: "Data é obrigatória" }),
+  time: z.string().min(1, { message: "Horário é obrigatório" }),
+  reason: z.string().trim().min(1, { message: "Motivo é obrigatório" }),
+});
+
+interface UpdateAppointmentSeriesFormProps {
+  appointment: typeof appointmentsTable.$inferSelect;
+  timeZone: string;
+  onSuccess?: () => void;
+}
+
+const UpdateAppointmentSeriesForm = ({
+  appointment,
+  timeZone,
+  onSuccess,
+}: UpdateAppointmentSeriesFormProps) => {
+  const [conflicts, setConflicts] = useState<{ date: Date; reason: string }[]>(
+    [],
+  );
+  const form = useForm<z.infer<typeof formSchema>>({
+    shouldUnregister: true,
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      scope: "future",
+      date: getClinicDate(appointment.date, timeZone),
+      time: "",
+      reason: "",
+    },
+  });
+  const date = form.watch("date");
+  const { timeSlots, isLoading: isLoadingTimeSlots } = useAvailableTimeSlots({
+    doctorId: appointment.doctorId,
+    date,
+    ignoreAppointmentId: appointment.id,
+  });
+  const updateAppointmentSeries = useAction(updateAppointmentSeriesAction, {
+    onSuccess: ({ data }) => {
+      if (data && data.conflicts.length > 0) {
+        setConflicts(data.conflicts);
+        return;
+      }
+
+      toast.success(`${data?.updatedCount} agendamentos atualizados!`);
+      onSuccess?.();
+    },
+    onError: () => {
+      toast.error("Erro ao alterar recorrência.");
+    },
+  });
+
+  const onSubmit = (values: z.infer<typeof formSchema>) => {
+    setConflicts([]);
+    updateAppointmentSeries.execute({
+      id: appointment.id,
+      scope: values.scope,
+      date: new Date(values.time),
+      reason: values.reason,
+    });
+  };
+
+  return (
+    <DialogContent className="sm:max-w-[500px]">
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          <DialogHeader>
+            <DialogTitle>Alterar recorrência</DialogTitle>
+            <DialogDescription>
+              Os agendamentos selecionados serão deslocados na mesma proporção
+              deste, atualmente em{" "}
+              {toClinicTime(appointment.date, timeZone).format(
+                "DD/MM/YYYY [às] HH:mm",
+              )}
+              .
+            </DialogDescription>
+          </DialogHeader>
+          <FormField
+            control={form.control}
+            name="scope"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Aplicar a</FormLabel>
+                <Select
+                  onValueChange={field.onChange}
+                  defaultValue={field.value}
+                >
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {appointmentSeriesScopes.map((scope) => (
+                      <SelectItem key={scope} value={scope}>
+                        {appointmentSeriesScopeLabels[scope]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="date"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nova data</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="date"
+                      {...field}
+                      onChange={(event) => {
+                        field.onChange(event);
+                        form.setValue("time", "");
+                      }}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="time"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Novo horário</FormLabel>
+                  <Select
+                    onValueChange={field.onChange}
+                    value={field.value}
+                    disabled={!date || isLoadingTimeSlots}
+                  >
+                    <FormControl>
+                      <SelectTrigger className="w-full">
+                        <SelectValue
+                          placeholder={
+                            isLoadingTimeSlots ? "Carregando..." : "Selecione"
+                          }
+                        />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {timeSlots.length > 0 ? (
+                        timeSlots.map((timeSlot) => (
+                          <SelectItem key={timeSlot} value={timeSlot}>
+                            {toClinicTime(timeSlot, timeZone).format("HH:mm")}
+                          </SelectItem>
+                        ))
+                      ) : (
+                        <SelectItem value="none" disabled>
+                          Nenhum horário disponível
+                        </SelectItem>
+                      )}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+          <FormField
+            control={form.control}
+            name="reason"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Motivo</FormLabel>
+                <FormControl>
+                  <Textarea
+                    placeholder="Ex.: paciente mudou o horário de trabalho"
+                    {...field}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <SeriesConflicts conflicts={conflicts} timeZone={timeZone} />
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button variant="outline">Cancelar</Button>
+            </DialogClose>
+            <Button type="submit" disabled={updateAppointmentSeries.isPending}>
+              {updateAppointmentSeries.isPending ? "Salvando..." : "Salvar"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </Form>
+    </DialogContent>
+  );
+};
+
+export default UpdateAppointmentSeriesForm;
@@ -0,0 +1,354 @@
+import { zodResolver } from "@hookform/resolvers/zod";
+import Link from "next/link";
+import { useAction } from "next-safe-action/hooks";
+import { useForm } from "react-hook-form";
+import { NumericFormat } from "react-number-format";
+import { toast } from "sonner";
+import { z } from "zod";
+
+import { upsertAppointmentAction } from "@/actions/upsert-appointment";
+import { useAvailableTimeSlots } from "@/app/(protected)/appointments/_hooks/use-available-time-slots";
+import { Button } from "@/components/ui/button";
+import {
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { doctorsTable, patientsTable } from "@/db/schema";
+import { getClinicDate, toClinicTime } from "@/helpers/time-zone";
+
+const formSchema = z.object({
+  patientId: z.string().min(1, { message: "Paciente é obrigatório" }),
+  doctorId: z.string().min(1, { message: "Médico é obrigatório" }),
+  date: z.string().min(1, { message: "Data é obrigatória" }),
+  time: z.string().min(1, { message: "Horário é obrigatório" }),
+  appointmentPrice: z.number({ message: "Valor da consulta é obrigatório" }),
+  priceOverrideReason: z.string().trim().optional(),
+});
+
+interface UpsertAppointmentFormProps {
+  defaultDoctorId?: string;
+  defaultPatientId?: string;
+  defaultDate?: Date;
+  waitlistEntryId?: string;
+  doctors: (typeof doctorsTable.$inferSelect)[];
+  patients: (typeof patientsTable.$inferSelect)[];
+  timeZone: string;
+  onSuccess?: () => void;
+}
+
+const UpsertAppointmentForm = ({
+  defaultDoctorId,
+  defaultPatientId,
+  defaultDate,
+  waitlistEntryId,
+  doctors,
+  patients,
+  timeZone,
+  onSuccess,
+}: UpsertAppointmentFormProps) => {
+  const getReferencePriceInCents = (doctorId: string) =>
+    doctors.find((doctor) => doctor.id === doctorId)?.appointmentPriceInCents;
+  const initialDoctorId = defaultDoctorId ?? "";
+  const form = useForm<z.infer<typeof formSchema>>({
+    shouldUnregister: true,
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      patientId: defaultPatientId ?? "",
+      doctorId: initialDoctorId,
+      date: defaultDate ? getClinicDate(defaultDate, timeZone) : "",
+      time: defaultDate?.toISOString() ?? "",
+      appointmentPrice: (getReferencePriceInCents(initialDoctorId) ?? 0) / 100,
+      priceOverrideReason: "",
+    },
+  });
+  const [doctorId, date, appointmentPrice] = form.watch([
+    "doctorId",
+    "date",
+    "appointmentPrice",
+  ]);
+  const referencePriceInCents = getReferencePriceInCents(doctorId);
+  const isPriceOverridden =
+    referencePriceInCents !== undefined &&
+    Math.round((appointmentPrice ?? 0) * 100) !== referencePriceInCents;
+  const { timeSlots, isLoading: isLoadingTimeSlots } = useAvailableTimeSlots({
+    doctorId,
+    date,
+  });
+  const upsertAppointment = useAction(upsertAppointmentAction, {
+    onSuccess: () => {
+      toast.success("Agendamento criado com sucesso!");
+      onSuccess?.();
+    },
+    onError: ({ error }) => {
+      const dateErrors = error.validationErrors?.date?._errors;
+
+      if (dateErrors?.length) {
+        form.setError("time", { message: dateErrors[0] });
+
+        return;
+      }
+
+      const priceOverrideReasonErrors =
+        error.validationErrors?.priceOverrideReason?._errors;
+
+      if (priceOverrideReasonErrors?.length) {
+        form.setError("priceOverrideReason", {
+          message: priceOverrideReasonErrors[0],
+        });
+
+        return;
+      }
+
+      toast.error(
+        error.validationErrors?._errors?.[0] ?? "Erro ao salvar agendamento.",
+      );
+    },
+  });
+
+  const onSubmit = (values: z.infer<typeof formSchema>) => {
+    if (isPriceOverridden && !values.priceOverrideReason) {
+      form.setError("priceOverrideReason", {
+        message: "Informe o motivo da alteração do valor da consulta.",
+      });
+
+      return;
+    }
+
+    upsertAppointment.execute({
+      patientId: values.patientId,
+      doctorId: values.doctorId,
+      date: new Date(values.time),
+      appointmentPriceInCents: Math.round(values.appointmentPrice * 100),
+      priceOverrideReason: isPriceOverridden
+        ? values.priceOverrideReason
+        : undefined,
+      waitlistEntryId,
+    });
+  };
+
+  return (
+    <DialogContent className="sm:max-w-[425px]">
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
+          <DialogHeader>
+            <DialogTitle>Novo agendamento</DialogTitle>
+            <DialogDescription>
+              Preencha os dados do novo agendamento.
+            </DialogDescription>
+          </DialogHeader>
+          <FormField
+            control={form.control}
+            name="patientId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Paciente</FormLabel>
+                <Select
+                  onValueChange={field.onChange}
+                  defaultValue={field.value}
+                >
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Selecione um paciente" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {patients.map((patient) => (
+                      <SelectItem key={patient.id} value={patient.id}>
+                        {patient.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="doctorId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Médico</FormLabel>
+                <Select
+                  onValueChange={(value) => {
+                    field.onChange(value);
+                    form.setValue("time", "");
+                    form.setValue(
+                      "appointmentPrice",
+                      (getReferencePriceInCents(value) ?? 0) / 100,
+                    );
+                  }}
+                  defaultValue={field.value}
+                >
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Selecione um médico" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {doctors.map((doctor) => (
+                      <SelectItem key={doctor.id} value={doctor.id}>
+                        {doctor.name} - {doctor.specialty}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="appointmentPrice"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Valor da consulta</FormLabel>
+                <FormControl>
+                  <NumericFormat
+                    value={field.value}
+                    onValueChange={(value) => field.onChange(value.floatValue)}
+                    decimalScale={2}
+                    fixedDecimalScale
+                    decimalSeparator=","
+                    allowNegative={false}
+                    allowLeadingZeros={false}
+                    thousandSeparator="."
+                    customInput={Input}
+                    prefix="R$ "
+                    disabled={!doctorId}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {isPriceOverridden && (
+            <FormField
+              control={form.control}
+              name="priceOverrideReason"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Motivo da alteração do valor</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="Ex.: desconto concedido pela clínica"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+          <FormField
+            control={form.control}
+            name="date"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Data</FormLabel>
+                <FormControl>
+                  <Input
+                    type="date"
+                    {...field}
+                    onChange={(event) => {
+                      field.onChange(event);
+                      form.setValue("time", "");
+                    }}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="time"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Horário</FormLabel>
+                <Select
+                  onValueChange={field.onChange}
+                  value={field.value}
+                  disabled={!doctorId || !date || isLoadingTimeSlots}
+                >
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue
+                        placeholder={
+                          isLoadingTimeSlots
+                            ? "Carregando horários..."
+                            : "Selecione um horário"
+                        }
+                      />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {timeSlots.length > 0 ? (
+                      timeSlots.map((timeSlot) => (
+                        <SelectItem key={timeSlot} value={timeSlot}>
+                          {toClinicTime(timeSlot, timeZone).format("HH:mm")}
+                        </SelectItem>
+                      ))
+                    ) : (
+                      <SelectItem value="none" disabled>
+                        Nenhum horário disponível
+                      </SelectItem>
+                    )}
+                  </SelectContent>
+                </Select>
+                {doctorId &&
+                  date &&
+                  !isLoadingTimeSlots &&
+                  timeSlots.length === 0 && (
+                    <FormDescription>
+                      Agenda cheia? Adicione o paciente à{" "}
+                      <Link
+                        href="/appointments/waitlist"
+                        className="text-primary underline"
+                      >
+                        lista de espera
+                      </Link>
+                      .
+                    </FormDescription>
+                  )}
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button variant="outline">Cancelar</Button>
+            </DialogClose>
+            <Button type="submit" disabled={upsertAppointment.isPending}>
+              {upsertAppointment.isPending ? "Salvando..." : "Agendar"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </Form>
+    </DialogContent>
+  );
+};
+
+export default UpsertAppointmentForm;
@@ -0,0 +1,96 @@
+import { useState } from "react";
+
+import UpsertAppointmentForm from "@/app/(protected)/appointments/_components/upsert-appointment-form";
+import { waitlistPriorityLabels } from "@/app/(protected)/appointments/_constants";
+import {
+  FreedSlot,
+  WaitlistEntryWithRelations,
+} from "@/app/(protected)/appointments/_types";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toClinicTime } from "@/helpers/time-zone";
+
+interface WaitlistSuggestionsProps extends FreedSlot {
+  timeZone: string;
+  onSuccess?: () => void;
+}
+
+const WaitlistSuggestions = ({
+  appointment,
+  waitlistSuggestions,
+  timeZone,
+  onSuccess,
+}: WaitlistSuggestionsProps) => {
+  const [selectedEntry, setSelectedEntry] =
+    useState<WaitlistEntryWithRelations | null>(null);
+
+  if (selectedEntry) {
+    return (
+      <UpsertAppointmentForm
+        doctors={[appointment.doctor]}
+        patients={[selectedEntry.patient]}
+        defaultDoctorId={appointment.doctorId}
+        defaultPatientId={selectedEntry.patientId}
+        defaultDate={appointment.date}
+        waitlistEntryId={selectedEntry.id}
+        timeZone={timeZone}
+        onSuccess={onSuccess}
+      />
+    );
+  }
+
+  return (
+    <DialogContent className="sm:max-w-[500px]">
+      <DialogHeader>
+        <DialogTitle>Horário liberado</DialogTitle>
+        <DialogDescription>
+          {toClinicTime(appointment.date, timeZone).format(
+            "DD/MM/YYYY [às] HH:mm",
+          )}{" "}
+          com {appointment.doctor.name}. Ofereça o horário a um paciente da
+          lista de espera.
+        </DialogDescription>
+      </DialogHeader>
+      <ul className="divide-y rounded-md border">
+        {waitlistSuggestions.map((entry) => (
+          <li
+            key={entry.id}
+            className="flex items-center justify-between gap-4 p-3"
+          >
+            <div className="space-y-1">
+              <div className="flex items-center gap-2 text-sm font-medium">
+                {entry.patient.name}
+                <Badge variant="outline">
+                  {waitlistPriorityLabels[entry.priority]}
+                </Badge>
+              </div>
+              <p className="text-muted-foreground text-xs">
+                Na lista desde{" "}
+                {toClinicTime(entry.createdAt, timeZone).format("DD/MM/YYYY")}
+                {entry.notes && ` · ${entry.notes}`}
+              </p>
+            </div>
+            <Button size="sm" onClick={() => setSelectedEntry(entry)}>
+              Oferecer horário
+            </Button>
+          </li>
+        ))}
+      </ul>
+      <DialogFooter>
+        <DialogClose asChild>
+          <Button variant="outline">Fechar</Button>
+        </DialogClose>
+      </DialogFooter>
+    </DialogContent>
+  );
+};
+
+export default WaitlistSuggestions;
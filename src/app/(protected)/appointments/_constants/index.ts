@@ -0,0 +1,58 @@
+import { appointmentStatusEnum, waitlistEntryStatusEnum } from "@/db/schema";
+
+export type AppointmentStatus =
+  (typeof appointmentStatusEnum.enumValues)[number];
+
+export const appointmentStatusLabels: Record<AppointmentStatus, string> = {
+  scheduled: "Agendado",
+  confirmed: "Confirmado",
+  checked_in: "Check-in realizado",
+  in_progress: "Em atendimento",
+  completed: "Concluído",
+  no_show: "Não compareceu",
+  cancelled: "Cancelado",
+};
+
+export const appointmentSeriesScopes = ["single", "future", "all"] as const;
+
+export type AppointmentSeriesScope = (typeof appointmentSeriesScopes)[number];
+
+export const appointmentSeriesScopeLabels: Record<
+  AppointmentSeriesScope,
+  string
+> = {
+  single: "Somente este agendamento",
+  future: "Este e os próximos agendamentos",
+  all: "Todos os agendamentos futuros da recorrência",
+};
+
+export const weekDayLabels = [
+  "Domingo",
+  "Segunda",
+  "Terça",
+  "Quarta",
+  "Quinta",
+  "Sexta",
+  "Sábado",
+];
+
+export const waitlistPriorityLabels = ["Normal", "Alta", "Urgente"];
+
+export type WaitlistEntryStatus =
+  (typeof waitlistEntryStatusEnum.enumValues)[number];
+
+export const waitlistEntryStatusLabels: Record<WaitlistEntryStatus, string> = {
+  waiting: "Aguardando",
+  booked: "Agendado",
+  removed: "Removido",
+};
+
+export const clinicalNoteSections = [
+  { key: "chiefComplaint", label: "Queixa principal" },
+  { key: "history", label: "História da doença atual" },
+  { key: "physicalExam", label: "Exame físico" },
+  { key: "assessment", label: "Avaliação" },
+  { key: "plan", label: "Conduta" },
+] as const;
+
+export type ClinicalNoteSection = (typeof clinicalNoteSections)[number]["key"];
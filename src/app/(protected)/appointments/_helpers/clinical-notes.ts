@@ -0,0 +1,30 @@
+import { clinicMemberRoleEnum } from "@/db/schema";
+
+interface CanAccessClinicalNoteParams {
+  user: {
+    id: string;
+    clinicRole?: (typeof clinicMemberRoleEnum.enumValues)[number];
+  };
+  doctor: { userId: string | null };
+  clinicalNote?: { versions: { createdByUserId: string | null }[] } | null;
+}
+
+// Besides the clinic owner, only the doctor who wrote a note may read or
+// amend it. Before the note exists, the appointment's doctor may start it.
+export const canAccessClinicalNote = ({
+  user,
+  doctor,
+  clinicalNote,
+}: CanAccessClinicalNoteParams) => {
+  if (user.clinicRole === "owner") {
+    return true;
+  }
+
+  if (clinicalNote) {
+    return clinicalNote.versions.some(
+      (version) => version.createdByUserId === user.id,
+    );
+  }
+
+  return doctor.userId === user.id;
+};
@@ -0,0 +1,64 @@
+import {
+  addDaysToDate,
+  getClinicDateTime,
+  toClinicTime,
+} from "@/helpers/time-zone";
+
+export const MAX_SERIES_OCCURRENCES = 100;
+
+interface GetSeriesOccurrencesParams {
+  startDate: Date;
+  intervalInWeeks: number;
+  weekDays: number[];
+  occurrences?: number;
+  // Last clinic day ("YYYY-MM-DD") of the series, inclusive.
+  endsAt?: string;
+  timeZone: string;
+}
+
+// Occurrences keep the clinic wall-clock time of the first one, so weekdays
+// and times do not depend on the server's time zone.
+export const getSeriesOccurrences = ({
+  startDate,
+  intervalInWeeks,
+  weekDays,
+  occurrences,
+  endsAt,
+  timeZone,
+}: GetSeriesOccurrencesParams) => {
+  const start = toClinicTime(startDate, timeZone);
+  const time = start.format("HH:mm");
+  const limit = Math.min(
+    occurrences ?? MAX_SERIES_OCCURRENCES,
+    MAX_SERIES_OCCURRENCES,
+  );
+  const sortedWeekDays = [...new Set(weekDays)].sort((a, b) => a - b);
+  const dates: Date[] = [];
+
+  for (
+    let week = addDaysToDate(start.format("YYYY-MM-DD"), -start.day());
+    dates.length < limit;
+    week = addDaysToDate(week, intervalInWeeks * 7)
+  ) {
+    for (const weekDay of sortedWeekDays) {
+      const day = addDaysToDate(week, weekDay);
+      const date = getClinicDateTime(day, time, timeZone);
+
+      if (date.isBefore(start)) {
+        continue;
+      }
+
+      if (endsAt && day > endsAt) {
+        return dates;
+      }
+
+      if (dates.length >= limit) {
+        return dates;
+      }
+
+      dates.push(date.toDate());
+    }
+  }
+
+  return dates;
+};
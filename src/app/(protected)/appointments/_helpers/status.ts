@@ -0,0 +1,29 @@
+import { AppointmentStatus } from "@/app/(protected)/appointments/_constants";
+
+const appointmentStatusTransitions: Record<
+  AppointmentStatus,
+  AppointmentStatus[]
+> = {
+  scheduled: ["confirmed", "checked_in", "no_show", "cancelled"],
+  confirmed: ["checked_in", "no_show", "cancelled"],
+  checked_in: ["in_progress", "cancelled"],
+  in_progress: ["completed"],
+  completed: [],
+  no_show: [],
+  cancelled: [],
+};
+
+export const getNextAppointmentStatuses = (status: AppointmentStatus) => {
+  return appointmentStatusTransitions[status];
+};
+
+export const canTransitionAppointmentStatus = (
+  from: AppointmentStatus,
+  to: AppointmentStatus,
+) => {
+  return appointmentStatusTransitions[from].includes(to);
+};
+
+export const canRescheduleAppointment = (status: AppointmentStatus) => {
+  return status === "scheduled" || status === "confirmed";
+};
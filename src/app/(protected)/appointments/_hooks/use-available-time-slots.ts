@@ -0,0 +1,51 @@
+import { useEffect, useState } from "react";
+
+interface UseAvailableTimeSlotsParams {
+  doctorId?: string;
+  date?: string;
+  ignoreAppointmentId?: string;
+}
+
+export const useAvailableTimeSlots = ({
+  doctorId,
+  date,
+  ignoreAppointmentId,
+}: UseAvailableTimeSlotsParams) => {
+  const [timeSlots, setTimeSlots] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!doctorId || !date) {
+      setTimeSlots([]);
+      setIsLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    const searchParams = new URLSearchParams({ date });
+
+    if (ignoreAppointmentId) {
+      searchParams.set("ignoreAppointmentId", ignoreAppointmentId);
+    }
+
+    setIsLoading(true);
+    fetch(`/api/doctors/${doctorId}/available-time-slots?${searchParams}`, {
+      signal: controller.signal,
+    })
+      .then((response) => (response.ok ? response.json() : { slots: [] }))
+      .then((data: { slots: string[] }) => {
+        setTimeSlots(data.slots);
+        setIsLoading(false);
+      })
+      .catch(() => {
+        if (!controller.signal.aborted) {
+          setTimeSlots([]);
+          setIsLoading(false);
+        }
+      });
+
+    return () => controller.abort();
+  }, [doctorId, date, ignoreAppointmentId]);
+
+  return { timeSlots, isLoading };
+};
@@ -0,0 +1,29 @@
+import {
+  appointmentReschedulesTable,
+  appointmentsTable,
+  doctorsTable,
+  patientsTable,
+  waitlistEntriesTable,
+} from "@/db/schema";
+
+export type AppointmentWithRelations = typeof appointmentsTable.$inferSelect & {
+  patient: typeof patientsTable.$inferSelect;
+  doctor: typeof doctorsTable.$inferSelect;
+  reschedules: (typeof appointmentReschedulesTable.$inferSelect & {
+    rescheduledBy: { name: string } | null;
+  })[];
+};
+
+export type WaitlistEntryWithRelations =
+  typeof waitlistEntriesTable.$inferSelect & {
+    patient: typeof patientsTable.$inferSelect;
+    doctor?: typeof doctorsTable.$inferSelect | null;
+  };
+
+// A cancelled appointment whose slot can be offered to the waitlist.
+export type FreedSlot = {
+  appointment: typeof appointmentsTable.$inferSelect & {
+    doctor: typeof doctorsTable.$inferSelect;
+  };
+  waitlistSuggestions: WaitlistEntryWithRelations[];
+};
@@ -0,0 +1,348 @@
+"use client";
+
+import "dayjs/locale/pt-br";
+
+import dayjs, { Dayjs } from "dayjs";
+import { ChevronLeftIcon, ChevronRightIcon } from "lucide-react";
+import { usePathname, useRouter } from "next/navigation";
+import { useState } from "react";
+
+import UpsertAppointmentForm from "@/app/(protected)/appointments/_components/upsert-appointment-form";
+import {
+  getAvailabilitiesForDate,
+  getTimeSlots,
+  isTimeSlotTaken,
+} from "@/app/(protected)/doctors/_helpers/availability";
+import { DoctorWithAvailabilities } from "@/app/(protected)/doctors/_types";
+import { Button } from "@/components/ui/button";
+import { Dialog } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { appointmentsTable, doctorsTable, patientsTable } from "@/db/schema";
+import { Holiday } from "@/helpers/holidays";
+import {
+  addDaysToDate,
+  getClinicDate,
+  getClinicDayRange,
+  toClinicTime,
+} from "@/helpers/time-zone";
+import { cn } from "@/lib/utils";
+
+dayjs.locale("pt-br");
+
+const HOUR_HEIGHT_IN_PX = 64;
+
+type CalendarView = "day" | "week";
+
+interface DoctorCalendarProps {
+  doctor: DoctorWithAvailabilities;
+  doctors: (typeof doctorsTable.$inferSelect)[];
+  patients: (typeof patientsTable.$inferSelect)[];
+  appointments: (typeof appointmentsTable.$inferSelect & {
+    patient: typeof patientsTable.$inferSelect;
+  })[];
+  holidays: Holiday[];
+  isClosedOnHolidays: boolean;
+  view: CalendarView;
+  date: string;
+  timeZone: string;
+}
+
+const DoctorCalendar = ({
+  doctor,
+  doctors,
+  patients,
+  appointments,
+  holidays,
+  isClosedOnHolidays,
+  view,
+  date,
+  timeZone,
+}: DoctorCalendarProps) => {
+  const router = useRouter();
+  const pathname = usePathname();
+  const [selectedSlot, setSelectedSlot] = useState<Date | null>(null);
+
+  const navigate = (params: {
+    doctorId?: string;
+    view?: CalendarView;
+    date?: string;
+  }) => {
+    const searchParams = new URLSearchParams({
+      doctorId: params.doctorId ?? doctor.id,
+      view: params.view ?? view,
+      date: params.date ?? date,
+    });
+
+    router.push(`${pathname}?${searchParams.toString()}`);
+  };
+
+  // The calendar shows the clinic's days and hours, wherever it is opened.
+  const now = dayjs();
+  const today = getClinicDate(now.toDate(), timeZone);
+  const days = Array.from({ length: view === "week" ? 7 : 1 }, (_, index) =>
+    addDaysToDate(date, index),
+  );
+  const columns = days.map((dayDate) => {
+    const day = getClinicDayRange(dayDate, timeZone).start;
+    const holiday = holidays.find((holiday) => holiday.date === dayDate);
+    const isClosed = !!holiday && isClosedOnHolidays;
+    const availabilities = isClosed
+      ? []
+      : getAvailabilitiesForDate(doctor, dayDate, timeZone);
+    const dayAppointments = appointments.filter(
+      (appointment) => getClinicDate(appointment.date, timeZone) === dayDate,
+    );
+    const freeSlots = isClosed
+      ? []
+      : getTimeSlots(doctor, dayDate, timeZone).filter(
+          (slot) =>
+            dayjs(slot).isAfter(now) &&
+            !isTimeSlotTaken(doctor, slot, dayAppointments),
+        );
+
+    return {
+      day,
+      isToday: dayDate === today,
+      holiday,
+      availabilities,
+      appointments: dayAppointments,
+      freeSlots,
+    };
+  });
+
+  const getHourOfDay = (value: Dayjs, day: Dayjs) =>
+    value.diff(day, "minute") / 60;
+  const startHour = Math.floor(
+    Math.min(
+      8,
+      ...columns.flatMap(({ day, availabilities, appointments }) => [
+        ...availabilities.map((availability) =>
+          getHourOfDay(availability.from, day),
+        ),
+        ...appointments.map((appointment) =>
+          getHourOfDay(dayjs(appointment.date), day),
+        ),
+      ]),
+    ),
+  );
+  const endHour = Math.ceil(
+    Math.max(
+      18,
+      ...columns.flatMap(({ day, availabilities, appointments }) => [
+        ...availabilities.map((availability) =>
+          getHourOfDay(availability.to, day),
+        ),
+        ...appointments.map(
+          (appointment) =>
+            getHourOfDay(dayjs(appointment.date), day) +
+            appointment.appointmentDurationInMinutes / 60,
+        ),
+      ]),
+    ),
+  );
+  const hours = Array.from(
+    { length: endHour - startHour },
+    (_, index) => startHour + index,
+  );
+
+  const getTop = (value: Dayjs, day: Dayjs) =>
+    (getHourOfDay(value, day) - startHour) * HOUR_HEIGHT_IN_PX;
+  const getHeight = (minutes: number) => (minutes / 60) * HOUR_HEIGHT_IN_PX;
+
+  const title =
+    view === "week"
+      ? `${dayjs(days[0]).format("DD/MM")} a ${dayjs(days[days.length - 1]).format("DD/MM/YYYY")}`
+      : dayjs(days[0]).format("dddd, DD/MM/YYYY");
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Select
+            value={doctor.id}
+            onValueChange={(doctorId) => navigate({ doctorId })}
+          >
+            <SelectTrigger className="w-[220px]">
+              <SelectValue placeholder="Selecione um médico" />
+            </SelectTrigger>
+            <SelectContent>
+              {doctors.map((doctor) => (
+                <SelectItem key={doctor.id} value={doctor.id}>
+                  {doctor.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant={view === "day" ? "default" : "outline"}
+            onClick={() => navigate({ view: "day" })}
+          >
+            Dia
+          </Button>
+          <Button
+            variant={view === "week" ? "default" : "outline"}
+            onClick={() => navigate({ view: "week" })}
+          >
+            Semana
+          </Button>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() =>
+              navigate({
+                date: dayjs(date).subtract(1, view).format("YYYY-MM-DD"),
+              })
+            }
+          >
+            <ChevronLeftIcon />
+          </Button>
+          <Button variant="outline" onClick={() => navigate({ date: today })}>
+            Hoje
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() =>
+              navigate({
+                date: dayjs(date).add(1, view).format("YYYY-MM-DD"),
+              })
+            }
+          >
+            <ChevronRightIcon />
+          </Button>
+          <span className="text-sm font-medium capitalize">{title}</span>
+        </div>
+      </div>
+      <div className="flex overflow-x-auto rounded-md border">
+        <div className="w-14 shrink-0 border-r">
+          <div className="h-16 border-b" />
+          {hours.map((hour) => (
+            <div
+              key={hour}
+              className="text-muted-foreground border-b pr-2 text-right text-xs"
+              style={{ height: HOUR_HEIGHT_IN_PX }}
+            >
+              {hour.toString().padStart(2, "0")}:00
+            </div>
+          ))}
+        </div>
+        {columns.map(
+          ({
+            day,
+            isToday,
+            holiday,
+            availabilities,
+            appointments,
+            freeSlots,
+          }) => (
+            <div
+              key={day.toString()}
+              className="min-w-[120px] flex-1 border-r last:border-r-0"
+            >
+              <div
+                className={cn(
+                  "flex h-16 flex-col items-center justify-center border-b text-sm",
+                  isToday && "text-primary font-semibold",
+                )}
+              >
+                <span className="capitalize">{day.format("ddd")}</span>
+                <span>{day.format("DD/MM")}</span>
+                {holiday && (
+                  <span
+                    className="text-muted-foreground max-w-full truncate px-1 text-xs font-normal"
+                    title={holiday.name}
+                  >
+                    {holiday.name}
+                  </span>
+                )}
+              </div>
+              <div
+                className="relative"
+                style={{ height: hours.length * HOUR_HEIGHT_IN_PX }}
+              >
+                {hours.map((hour) => (
+                  <div
+                    key={hour}
+                    className="border-b"
+                    style={{ height: HOUR_HEIGHT_IN_PX }}
+                  />
+                ))}
+                {availabilities.map((availability) => (
+                  <div
+                    key={availability.from.toString()}
+                    className="bg-primary/5 pointer-events-none absolute inset-x-0"
+                    style={{
+                      top: getTop(availability.from, day),
+                      height: getHeight(
+                        availability.to.diff(availability.from, "minute"),
+                      ),
+                    }}
+                  />
+                ))}
+                {freeSlots.map((slot) => (
+                  <button
+                    key={slot.toISOString()}
+                    type="button"
+                    className="hover:bg-primary/10 text-primary absolute inset-x-1 cursor-pointer rounded px-1 text-left text-xs opacity-0 transition-opacity hover:opacity-100"
+                    style={{
+                      top: getTop(toClinicTime(slot, timeZone), day),
+                      height: getHeight(doctor.appointmentDurationInMinutes),
+                    }}
+                    onClick={() => setSelectedSlot(slot)}
+                  >
+                    + {toClinicTime(slot, timeZone).format("HH:mm")}
+                  </button>
+                ))}
+                {appointments.map((appointment) => (
+                  <div
+                    key={appointment.id}
+                    className="bg-primary text-primary-foreground absolute inset-x-1 overflow-hidden rounded px-1 text-xs"
+                    style={{
+                      top: getTop(
+                        toClinicTime(appointment.date, timeZone),
+                        day,
+                      ),
+                      height: getHeight(
+                        appointment.appointmentDurationInMinutes,
+                      ),
+                    }}
+                    title={`${toClinicTime(appointment.date, timeZone).format("HH:mm")} - ${appointment.patient.name}`}
+                  >
+                    {toClinicTime(appointment.date, timeZone).format("HH:mm")}{" "}
+                    {appointment.patient.name}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ),
+        )}
+      </div>
+      <Dialog
+        open={!!selectedSlot}
+        onOpenChange={(open) => !open && setSelectedSlot(null)}
+      >
+        {selectedSlot && (
+          <UpsertAppointmentForm
+            key={selectedSlot.toISOString()}
+            doctors={doctors}
+            patients={patients}
+            defaultDoctorId={doctor.id}
+            defaultDate={selectedSlot}
+            timeZone={timeZone}
+            onSuccess={() => setSelectedSlot(null)}
+          />
+        )}
+      </Dialog>
+    </div>
+  );
+};
+
+export default DoctorCalendar;
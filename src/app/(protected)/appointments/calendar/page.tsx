@@ -0,0 +1,161 @@
+import dayjs from "dayjs";
+import { and, asc, eq, gt, gte, isNull, lt, ne } from "drizzle-orm";
+import { ListIcon } from "lucide-react";
+import { headers } from "next/headers";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { z } from "zod";
+
+import DoctorCalendar from "@/app/(protected)/appointments/calendar/_components/doctor-calendar";
+import { Button } from "@/components/ui/button";
+import {
+  PageActions,
+  PageContainer,
+  PageContent,
+  PageDescription,
+  PageHeader,
+  PageHeaderContent,
+  PageTitle,
+} from "@/components/ui/page-container";
+import { db } from "@/db";
+import {
+  appointmentsTable,
+  clinicsTable,
+  doctorAvailabilityExceptionsTable,
+  doctorsTable,
+  patientsTable,
+} from "@/db/schema";
+import { getHolidaysForYear } from "@/helpers/holidays";
+import { getClinicDate, getClinicDayRange } from "@/helpers/time-zone";
+import { auth } from "@/lib/auth";
+
+const searchParamsSchema = z.object({
+  doctorId: z.string().uuid().optional().catch(undefined),
+  view: z.enum(["day", "week"]).catch("week"),
+  date: z.string().date().optional().catch(undefined),
+});
+
+interface AppointmentsCalendarPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+const AppointmentsCalendarPage = async ({
+  searchParams,
+}: AppointmentsCalendarPageProps) => {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session?.user) {
+    redirect("/authentication");
+  }
+
+  if (!session?.user.clinic) {
+    redirect("/clinic-form");
+  }
+
+  const { doctorId, view, date } = searchParamsSchema.parse(await searchParams);
+  const timeZone = session.user.clinic.timeZone;
+  // Days are clinic days: the range starts and ends at the clinic's midnight.
+  const startDate = dayjs(date ?? getClinicDate(new Date(), timeZone))
+    .startOf(view)
+    .format("YYYY-MM-DD");
+  const endDate = dayjs(startDate).add(1, view).format("YYYY-MM-DD");
+  const start = getClinicDayRange(startDate, timeZone).start;
+  const end = getClinicDayRange(endDate, timeZone).start;
+
+  const [doctors, patients, clinic] = await Promise.all([
+    db.query.doctorsTable.findMany({
+      where: eq(doctorsTable.clinicId, session.user.clinic.id),
+      with: {
+        availabilities: true,
+        availabilityExceptions: {
+          where: and(
+            lt(doctorAvailabilityExceptionsTable.startsAt, end.toDate()),
+            gt(doctorAvailabilityExceptionsTable.endsAt, start.toDate()),
+          ),
+        },
+      },
+      orderBy: [asc(doctorsTable.name)],
+    }),
+    db.query.patientsTable.findMany({
+      where: and(
+        eq(patientsTable.clinicId, session.user.clinic.id),
+        isNull(patientsTable.anonymizedAt),
+      ),
+      orderBy: [asc(patientsTable.name)],
+    }),
+    db.query.clinicsTable.findFirst({
+      where: eq(clinicsTable.id, session.user.clinic.id),
+      with: {
+        holidays: true,
+      },
+    }),
+  ]);
+
+  const doctor = doctors.find((doctor) => doctor.id === doctorId) ?? doctors[0];
+
+  const holidays = [
+    ...new Set([
+      dayjs(startDate).year(),
+      dayjs(endDate).subtract(1, "day").year(),
+    ]),
+  ].flatMap((year) => getHolidaysForYear(year, clinic?.holidays));
+
+  const appointments = doctor
+    ? await db.query.appointmentsTable.findMany({
+        where: and(
+          eq(appointmentsTable.doctorId, doctor.id),
+          ne(appointmentsTable.status, "cancelled"),
+          gte(appointmentsTable.date, start.toDate()),
+          lt(appointmentsTable.date, end.toDate()),
+        ),
+        with: {
+          patient: true,
+        },
+        orderBy: [asc(appointmentsTable.date)],
+      })
+    : [];
+
+  return (
+    <PageContainer>
+      <PageHeader>
+        <PageHeaderContent>
+          <PageTitle>Calendário</PageTitle>
+          <PageDescription>
+            Visualize a agenda de cada médico por dia ou semana
+          </PageDescription>
+        </PageHeaderContent>
+        <PageActions>
+          <Button variant="outline" asChild>
+            <Link href="/appointments">
+              <ListIcon />
+              Ver lista
+            </Link>
+          </Button>
+        </PageActions>
+      </PageHeader>
+      <PageContent>
+        {doctor ? (
+          <DoctorCalendar
+            doctor={doctor}
+            doctors={doctors}
+            patients={patients}
+            appointments={appointments}
+            holidays={holidays}
+            isClosedOnHolidays={!clinic?.openOnHolidays}
+            view={view}
+            date={startDate}
+            timeZone={timeZone}
+          />
+        ) : (
+          <div className="text-muted-foreground text-center">
+            Nenhum médico cadastrado. Adicione um médico para começar.
+          </div>
+        )}
+      </PageContent>
+    </PageContainer>
+  );
+};
+
+export default AppointmentsCalendarPage;
@@ -0,0 +1,185 @@
+import { and, asc, desc, eq, gte, isNull, lt } from "drizzle-orm";
+import { CalendarDaysIcon, ClockIcon } from "lucide-react";
+import { headers } from "next/headers";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { z } from "zod";
+
+import AddAppointmentButton from "@/app/(protected)/appointments/_components/add-appointment-button";
+import AddAppointmentSeriesButton from "@/app/(protected)/appointments/_components/add-appointment-series-button";
+import AppointmentsFilters from "@/app/(protected)/appointments/_components/appointments-filters";
+import AppointmentsTable from "@/app/(protected)/appointments/_components/appointments-table";
+import { Button } from "@/components/ui/button";
+import {
+  PageActions,
+  PageContainer,
+  PageContent,
+  PageDescription,
+  PageHeader,
+  PageHeaderContent,
+  PageTitle,
+} from "@/components/ui/page-container";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { db } from "@/db";
+import {
+  appointmentReschedulesTable,
+  appointmentsTable,
+  doctorsTable,
+  patientsTable,
+} from "@/db/schema";
+import { getClinicDayRange } from "@/helpers/time-zone";
+import { auth } from "@/lib/auth";
+
+const searchParamsSchema = z.object({
+  doctorId: z.string().uuid().optional().catch(undefined),
+  patientId: z.string().uuid().optional().catch(undefined),
+  from: z.string().date().optional().catch(undefined),
+  to: z.string().date().optional().catch(undefined),
+});
+
+interface AppointmentsPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+const AppointmentsPage = async ({ searchParams }: AppointmentsPageProps) => {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session?.user) {
+    redirect("/authentication");
+  }
+
+  if (!session?.user.clinic) {
+    redirect("/clinic-form");
+  }
+
+  const filters = searchParamsSchema.parse(await searchParams);
+  const timeZone = session.user.clinic.timeZone;
+
+  const [appointments, doctors, patients] = await Promise.all([
+    db.query.appointmentsTable.findMany({
+      where: and(
+        eq(appointmentsTable.clinicId, session.user.clinic.id),
+        filters.doctorId
+          ? eq(appointmentsTable.doctorId, filters.doctorId)
+          : undefined,
+        filters.patientId
+          ? eq(appointmentsTable.patientId, filters.patientId)
+          : undefined,
+        filters.from
+          ? gte(
+              appointmentsTable.date,
+              getClinicDayRange(filters.from, timeZone).start.toDate(),
+            )
+          : undefined,
+        filters.to
+          ? lt(
+              appointmentsTable.date,
+              getClinicDayRange(filters.to, timeZone).end.toDate(),
+            )
+          : undefined,
+      ),
+      with: {
+        patient: true,
+        doctor: true,
+        reschedules: {
+          with: {
+            rescheduledBy: {
+              columns: {
+                name: true,
+              },
+            },
+          },
+          orderBy: [desc(appointmentReschedulesTable.createdAt)],
+        },
+      },
+      orderBy: [asc(appointmentsTable.date)],
+    }),
+    db.query.doctorsTable.findMany({
+      where: eq(doctorsTable.clinicId, session.user.clinic.id),
+      orderBy: [asc(doctorsTable.name)],
+    }),
+    db.query.patientsTable.findMany({
+      where: and(
+        eq(patientsTable.clinicId, session.user.clinic.id),
+        isNull(patientsTable.anonymizedAt),
+      ),
+      orderBy: [asc(patientsTable.name)],
+    }),
+  ]);
+
+  const now = new Date();
+  const upcomingAppointments = appointments.filter(
+    (appointment) => appointment.date >= now,
+  );
+  const pastAppointments = appointments
+    .filter((appointment) => appointment.date < now)
+    .reverse();
+
+  return (
+    <PageContainer>
+      <PageHeader>
+        <PageHeaderContent>
+          <PageTitle>Agendamentos</PageTitle>
+          <PageDescription>
+            Gerencie os agendamentos de sua clínica
+          </PageDescription>
+        </PageHeaderContent>
+        <PageActions>
+          <Button variant="outline" asChild>
+            <Link href="/appointments/calendar">
+              <CalendarDaysIcon />
+              Ver calendário
+            </Link>
+          </Button>
+          <Button variant="outline" asChild>
+            <Link href="/appointments/waitlist">
+              <ClockIcon />
+              Lista de espera
+            </Link>
+          </Button>
+          <AddAppointmentSeriesButton
+            doctors={doctors}
+            patients={patients}
+            timeZone={timeZone}
+          />
+          <AddAppointmentButton
+            doctors={doctors}
+            patients={patients}
+            timeZone={timeZone}
+          />
+        </PageActions>
+      </PageHeader>
+      <PageContent>
+        <AppointmentsFilters doctors={doctors} patients={patients} />
+        <Tabs defaultValue="upcoming">
+          <TabsList>
+            <TabsTrigger value="upcoming">
+              Próximos ({upcomingAppointments.length})
+            </TabsTrigger>
+            <TabsTrigger value="past">
+              Anteriores ({pastAppointments.length})
+            </TabsTrigger>
+          </TabsList>
+          <TabsContent value="upcoming">
+            <AppointmentsTable
+              appointments={upcomingAppointments}
+              emptyMessage="Nenhum agendamento futuro encontrado."
+              timeZone={timeZone}
+            />
+          </TabsContent>
+          <TabsContent value="past">
+            <AppointmentsTable
+              appointments={pastAppointments}
+              emptyMessage="Nenhum agendamento anterior encontrado."
+              timeZone={timeZone}
+            />
+          </TabsContent>
+        </Tabs>
+      </PageContent>
+    </PageContainer>
+  );
+};
+
+export default AppointmentsPage;
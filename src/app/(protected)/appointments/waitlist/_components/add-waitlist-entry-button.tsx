@@ -0,0 +1,42 @@
+"use client";
+
+import { Plus } from "lucide-react";
+import { useState } from "react";
+
+import AddWaitlistEntryForm from "@/app/(protected)/appointments/waitlist/_components/add-waitlist-entry-form";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogTrigger } from "@/components/ui/dialog";
+import { doctorsTable, patientsTable } from "@/db/schema";
+
+interface AddWaitlistEntryButtonProps {
+  doctors: (typeof doctorsTable.$inferSelect)[];
+  patients: (typeof patientsTable.$inferSelect)[];
+  timeZone: string;
+}
+
+const AddWaitlistEntryButton = ({
+  doctors,
+  patients,
+  timeZone,
+}: AddWaitlistEntryButtonProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button>
+          <Plus />
+          Adicionar à lista
+        </Button>
+      </DialogTrigger>
+      <AddWaitlistEntryForm
+        doctors={doctors}
+        patients={patients}
+        timeZone={timeZone}
+        onSuccess={() => setIsOpen(false)}
+      />
+    </Dialog>
+  );
+};
+
+export default AddWaitlistEntryButton;
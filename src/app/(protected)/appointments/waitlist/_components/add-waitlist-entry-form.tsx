@@ -0,0 +1,307 @@
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useAction } from "next-safe-action/hooks";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+import { z } from "zod";
+
+import { addWaitlistEntryAction } from "@/actions/add-waitlist-entry";
+import { waitlistPriorityLabels } from "@/app/(protected)/appointments/_constants";
+import { medicalSpecialties } from "@/app/(protected)/doctors/_constants";
+import { Button } from "@/components/ui/button";
+import {
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { doctorsTable, patientsTable } from "@/db/schema";
+import {
+  addDaysToDate,
+  getClinicDate,
+  getClinicDayRange,
+} from "@/helpers/time-zone";
+
+const ANY_DOCTOR = "any";
+
+const formSchema = z
+  .object({
+    patientId: z.string().min(1, { message: "Paciente é obrigatório" }),
+    doctorId: z.string().min(1, { message: "Médico é obrigatório" }),
+    specialty: z.string(),
+    preferredFromDate: z
+      .string()
+      .min(1, { message: "Data inicial é obrigatória" }),
+    preferredToDate: z.string().min(1, { message: "Data final é obrigatória" }),
+    priority: z.string(),
+    notes: z.string().trim(),
+  })
+  .refine((data) => data.doctorId !== ANY_DOCTOR || data.specialty, {
+    message: "Especialidade é obrigatória",
+    path: ["specialty"],
+  })
+  .refine((data) => data.preferredFromDate <= data.preferredToDate, {
+    message: "A data final não pode ser anterior à data inicial",
+    path: ["preferredToDate"],
+  });
+
+interface AddWaitlistEntryFormProps {
+  doctors: (typeof doctorsTable.$inferSelect)[];
+  patients: (typeof patientsTable.$inferSelect)[];
+  timeZone: string;
+  onSuccess?: () => void;
+}
+
+const AddWaitlistEntryForm = ({
+  doctors,
+  patients,
+  timeZone,
+  onSuccess,
+}: AddWaitlistEntryFormProps) => {
+  const today = getClinicDate(new Date(), timeZone);
+  const form = useForm<z.infer<typeof formSchema>>({
+    shouldUnregister: true,
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      patientId: "",
+      doctorId: "",
+      specialty: "",
+      preferredFromDate: today,
+      preferredToDate: addDaysToDate(today, 14),
+      priority: "0",
+      notes: "",
+    },
+  });
+  const doctorId = form.watch("doctorId");
+  const addWaitlistEntry = useAction(addWaitlistEntryAction, {
+    onSuccess: () => {
+      toast.success("Paciente adicionado à lista de espera!");
+      form.reset();
+      onSuccess?.();
+    },
+    onError: () => {
+      toast.error("Erro ao adicionar paciente à lista de espera.");
+    },
+  });
+
+  const onSubmit = (values: z.infer<typeof formSchema>) => {
+    addWaitlistEntry.execute({
+      patientId: values.patientId,
+      doctorId: values.doctorId === ANY_DOCTOR ? undefined : values.doctorId,
+      specialty: values.doctorId === ANY_DOCTOR ? values.specialty : undefined,
+      preferredFromDate: getClinicDayRange(
+        values.preferredFromDate,
+        timeZone,
+      ).start.toDate(),
+      preferredToDate: getClinicDayRange(values.preferredToDate, timeZone)
+        .end.subtract(1, "millisecond")
+        .toDate(),
+      priority: parseInt(values.priority),
+      notes: values.notes || undefined,
+    });
+  };
+
+  return (
+    <DialogContent className="sm:max-w-[425px]">
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          <DialogHeader>
+            <DialogTitle>Adicionar à lista de espera</DialogTitle>
+            <DialogDescription>
+              O paciente será sugerido quando um horário compatível for
+              liberado.
+            </DialogDescription>
+          </DialogHeader>
+          <FormField
+            control={form.control}
+            name="patientId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Paciente</FormLabel>
+                <Select
+                  onValueChange={field.onChange}
+                  defaultValue={field.value}
+                >
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Selecione um paciente" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {patients.map((patient) => (
+                      <SelectItem key={patient.id} value={patient.id}>
+                        {patient.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="doctorId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Médico</FormLabel>
+                <Select
+                  onValueChange={field.onChange}
+                  defaultValue={field.value}
+                >
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Selecione um médico" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value={ANY_DOCTOR}>
+                      Qualquer médico da especialidade
+                    </SelectItem>
+                    {doctors.map((doctor) => (
+                      <SelectItem key={doctor.id} value={doctor.id}>
+                        {doctor.name} - {doctor.specialty}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {doctorId === ANY_DOCTOR && (
+            <FormField
+              control={form.control}
+              name="specialty"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Especialidade</FormLabel>
+                  <Select
+                    onValueChange={field.onChange}
+                    defaultValue={field.value}
+                  >
+                    <FormControl>
+                      <SelectTrigger className="w-full">
+                        <SelectValue placeholder="Selecione uma especialidade" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {medicalSpecialties.map((specialty) => (
+                        <SelectItem
+                          key={specialty.value}
+                          value={specialty.value}
+                        >
+                          {specialty.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="preferredFromDate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>A partir de</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="preferredToDate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Até</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+          <FormField
+            control={form.control}
+            name="priority"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Prioridade</FormLabel>
+                <Select
+                  onValueChange={field.onChange}
+                  defaultValue={field.value}
+                >
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {waitlistPriorityLabels.map((label, priority) => (
+                      <SelectItem key={label} value={priority.toString()}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="notes"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Observações</FormLabel>
+                <FormControl>
+                  <Textarea
+                    placeholder="Ex.: prefere horários pela manhã"
+                    {...field}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button variant="outline">Cancelar</Button>
+            </DialogClose>
+            <Button type="submit" disabled={addWaitlistEntry.isPending}>
+              {addWaitlistEntry.isPending ? "Salvando..." : "Adicionar"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </Form>
+    </DialogContent>
+  );
+};
+
+export default AddWaitlistEntryForm;
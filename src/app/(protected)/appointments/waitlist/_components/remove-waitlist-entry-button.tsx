@@ -0,0 +1,71 @@
+import { TrashIcon } from "lucide-react";
+import { useAction } from "next-safe-action/hooks";
+import { toast } from "sonner";
+
+import { removeWaitlistEntryAction } from "@/actions/remove-waitlist-entry";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { waitlistEntriesTable } from "@/db/schema";
+
+interface RemoveWaitlistEntryButtonProps {
+  waitlistEntry: typeof waitlistEntriesTable.$inferSelect;
+}
+
+const RemoveWaitlistEntryButton = ({
+  waitlistEntry,
+}: RemoveWaitlistEntryButtonProps) => {
+  const removeWaitlistEntry = useAction(removeWaitlistEntryAction, {
+    onSuccess: () => {
+      toast.success("Paciente removido da lista de espera!");
+    },
+    onError: () => {
+      toast.error("Erro ao remover paciente da lista de espera.");
+    },
+  });
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          disabled={removeWaitlistEntry.isPending}
+        >
+          <TrashIcon />
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>
+            Remover paciente da lista de espera?
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            O paciente deixará de receber sugestões de horários liberados.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancelar</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={() =>
+              removeWaitlistEntry.execute({ id: waitlistEntry.id })
+            }
+          >
+            Remover
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default RemoveWaitlistEntryButton;
@@ -0,0 +1,91 @@
+"use client";
+
+import "dayjs/locale/pt-br";
+
+import dayjs from "dayjs";
+
+import { waitlistPriorityLabels } from "@/app/(protected)/appointments/_constants";
+import { WaitlistEntryWithRelations } from "@/app/(protected)/appointments/_types";
+import RemoveWaitlistEntryButton from "@/app/(protected)/appointments/waitlist/_components/remove-waitlist-entry-button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toClinicTime } from "@/helpers/time-zone";
+
+dayjs.locale("pt-br");
+
+interface WaitlistTableProps {
+  waitlistEntries: WaitlistEntryWithRelations[];
+  timeZone: string;
+}
+
+const WaitlistTable = ({ waitlistEntries, timeZone }: WaitlistTableProps) => {
+  if (waitlistEntries.length === 0) {
+    return (
+      <div className="text-muted-foreground py-6 text-center">
+        Nenhum paciente na lista de espera.
+      </div>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Paciente</TableHead>
+          <TableHead>Médico</TableHead>
+          <TableHead>Especialidade</TableHead>
+          <TableHead>Período desejado</TableHead>
+          <TableHead>Prioridade</TableHead>
+          <TableHead>Observações</TableHead>
+          <TableHead>Na lista desde</TableHead>
+          <TableHead className="w-0" />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {waitlistEntries.map((waitlistEntry) => (
+          <TableRow key={waitlistEntry.id}>
+            <TableCell>{waitlistEntry.patient.name}</TableCell>
+            <TableCell>{waitlistEntry.doctor?.name ?? "Qualquer"}</TableCell>
+            <TableCell>{waitlistEntry.specialty}</TableCell>
+            <TableCell>
+              {toClinicTime(waitlistEntry.preferredFromDate, timeZone).format(
+                "DD/MM/YYYY",
+              )}{" "}
+              a{" "}
+              {toClinicTime(waitlistEntry.preferredToDate, timeZone).format(
+                "DD/MM/YYYY",
+              )}
+            </TableCell>
+            <TableCell>
+              <Badge
+                variant={waitlistEntry.priority > 0 ? "default" : "outline"}
+              >
+                {waitlistPriorityLabels[waitlistEntry.priority]}
+              </Badge>
+            </TableCell>
+            <TableCell className="max-w-[200px] truncate">
+              {waitlistEntry.notes}
+            </TableCell>
+            <TableCell>
+              {toClinicTime(waitlistEntry.createdAt, timeZone).format(
+                "DD/MM/YYYY",
+              )}
+            </TableCell>
+            <TableCell>
+              <RemoveWaitlistEntryButton waitlistEntry={waitlistEntry} />
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default WaitlistTable;
@@ -0,0 +1,97 @@
+import { and, asc, desc, eq, isNull } from "drizzle-orm";
+import { ListIcon } from "lucide-react";
+import { headers } from "next/headers";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+
+import AddWaitlistEntryButton from "@/app/(protected)/appointments/waitlist/_components/add-waitlist-entry-button";
+import WaitlistTable from "@/app/(protected)/appointments/waitlist/_components/waitlist-table";
+import { Button } from "@/components/ui/button";
+import {
+  PageActions,
+  PageContainer,
+  PageContent,
+  PageDescription,
+  PageHeader,
+  PageHeaderContent,
+  PageTitle,
+} from "@/components/ui/page-container";
+import { db } from "@/db";
+import { doctorsTable, patientsTable, waitlistEntriesTable } from "@/db/schema";
+import { auth } from "@/lib/auth";
+
+const WaitlistPage = async () => {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session?.user) {
+    redirect("/authentication");
+  }
+
+  if (!session?.user.clinic) {
+    redirect("/clinic-form");
+  }
+
+  const [waitlistEntries, doctors, patients] = await Promise.all([
+    db.query.waitlistEntriesTable.findMany({
+      where: and(
+        eq(waitlistEntriesTable.clinicId, session.user.clinic.id),
+        eq(waitlistEntriesTable.status, "waiting"),
+      ),
+      with: {
+        patient: true,
+        doctor: true,
+      },
+      orderBy: [
+        desc(waitlistEntriesTable.priority),
+        asc(waitlistEntriesTable.createdAt),
+      ],
+    }),
+    db.query.doctorsTable.findMany({
+      where: eq(doctorsTable.clinicId, session.user.clinic.id),
+      orderBy: [asc(doctorsTable.name)],
+    }),
+    db.query.patientsTable.findMany({
+      where: and(
+        eq(patientsTable.clinicId, session.user.clinic.id),
+        isNull(patientsTable.anonymizedAt),
+      ),
+      orderBy: [asc(patientsTable.name)],
+    }),
+  ]);
+
+  return (
+    <PageContainer>
+      <PageHeader>
+        <PageHeaderContent>
+          <PageTitle>Lista de espera</PageTitle>
+          <PageDescription>
+            Pacientes aguardando um horário com um médico ou especialidade
+          </PageDescription>
+        </PageHeaderContent>
+        <PageActions>
+          <Button variant="outline" asChild>
+            <Link href="/appointments">
+              <ListIcon />
+              Ver agendamentos
+            </Link>
+          </Button>
+          <AddWaitlistEntryButton
+            doctors={doctors}
+            patients={patients}
+            timeZone={session.user.clinic.timeZone}
+          />
+        </PageActions>
+      </PageHeader>
+      <PageContent>
+        <WaitlistTable
+          waitlistEntries={waitlistEntries}
+          timeZone={session.user.clinic.timeZone}
+        />
+      </PageContent>
+    </PageContainer>
+  );
+};
+
+export default WaitlistPage;
@@ -19,9 +19,18 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { clinicTimeZones, DEFAULT_CLINIC_TIME_ZONE } from "@/helpers/time-zone";
 
 const clinicFormSchema = z.object({
   name: z.string().trim().min(1, "Nome é obrigatório"),
+  timeZone: z.string().min(1, "Fuso horário é obrigatório"),
 });
 
 const ClinicForm = () => {
@@ -29,12 +38,13 @@ const ClinicForm = () => {
     resolver: zodResolver(clinicFormSchema),
     defaultValues: {
       name: "",
+      timeZone: DEFAULT_CLINIC_TIME_ZONE,
     },
   });
 
   async function onSubmit(data: z.infer<typeof clinicFormSchema>) {
     try {
-      await createClinicAction(data.name);
+      await createClinicAction(data.name, data.timeZone);
       toast.success("Clínica criada com sucesso!");
       form.reset();
     } catch (error) {
@@ -67,6 +77,30 @@ const ClinicForm = () => {
               </FormItem>
             )}
           />
+          <FormField
+            control={form.control}
+            name="timeZone"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Fuso horário</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Selecione o fuso horário" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {clinicTimeZones.map((timeZone) => (
+                      <SelectItem key={timeZone.value} value={timeZone.value}>
+                        {timeZone.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
           <DialogFooter>
             {/* <DialogClose asChild>
               <Button variant="outline">Cancel</Button>
@@ -7,7 +7,11 @@ import UpsertDoctorForm from "@/app/(protected)/doctors/_components/upsert-docto
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogTrigger } from "@/components/ui/dialog";
 
-const AddDoctorButton = () => {
+interface AddDoctorButtonProps {
+  users: { id: string; name: string; email: string }[];
+}
+
+const AddDoctorButton = ({ users }: AddDoctorButtonProps) => {
   const [isOpen, setIsOpen] = useState(false);
 
   return (
@@ -18,7 +22,7 @@ const AddDoctorButton = () => {
           Adicionar médico
         </Button>
       </DialogTrigger>
-      <UpsertDoctorForm onSuccess={() => setIsOpen(false)} />
+      <UpsertDoctorForm users={users} onSuccess={() => setIsOpen(false)} />
     </Dialog>
   );
 };
@@ -0,0 +1,455 @@
+import { zodResolver } from "@hookform/resolvers/zod";
+import { AlertTriangleIcon, TrashIcon } from "lucide-react";
+import { useAction } from "next-safe-action/hooks";
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+import { z } from "zod";
+
+import { addAvailabilityExceptionAction } from "@/actions/add-availability-exception";
+import { deleteAvailabilityExceptionAction } from "@/actions/delete-availability-exception";
+import RescheduleAppointmentForm from "@/app/(protected)/appointments/_components/reschedule-appointment-form";
+import {
+  availabilityExceptionTypeLabels,
+  availabilityTimeGroups,
+} from "@/app/(protected)/doctors/_constants";
+import { formatAvailabilityExceptionPeriod } from "@/app/(protected)/doctors/_helpers/availability";
+import { DoctorWithAvailabilities } from "@/app/(protected)/doctors/_types";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { availabilityExceptionTypeEnum } from "@/db/schema";
+import {
+  getClinicDateTime,
+  getClinicDayRange,
+  toClinicTime,
+} from "@/helpers/time-zone";
+
+const formSchema = z
+  .object({
+    type: z.enum(availabilityExceptionTypeEnum.enumValues),
+    period: z.enum(["allDay", "partial"]),
+    startDate: z.string().min(1, { message: "Data é obrigatória" }),
+    endDate: z.string().optional(),
+    fromTime: z.string().optional(),
+    toTime: z.string().optional(),
+    reason: z.string().trim().optional(),
+  })
+  .superRefine((data, ctx) => {
+    if (data.type === "block" && !data.endDate) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Data final é obrigatória",
+        path: ["endDate"],
+      });
+    }
+
+    if (data.type === "extra" || data.period === "partial") {
+      for (const name of ["fromTime", "toTime"] as const) {
+        if (!data[name]) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: "Horário é obrigatório",
+            path: [name],
+          });
+        }
+      }
+    }
+  });
+
+type FormValues = z.infer<typeof formSchema>;
+
+// Full-day blocks run from the clinic's midnight of the first day to its
+// midnight after the last one; everything else uses the chosen clinic times.
+const getExceptionRange = (values: FormValues, timeZone: string) => {
+  const endDate = values.type === "extra" ? values.startDate : values.endDate;
+
+  if (values.type === "block" && values.period === "allDay") {
+    return {
+      startsAt: getClinicDayRange(values.startDate, timeZone).start.toDate(),
+      endsAt: getClinicDayRange(endDate ?? "", timeZone).end.toDate(),
+    };
+  }
+
+  return {
+    startsAt: getClinicDateTime(
+      values.startDate,
+      values.fromTime ?? "",
+      timeZone,
+    ).toDate(),
+    endsAt: getClinicDateTime(
+      endDate ?? "",
+      values.toTime ?? "",
+      timeZone,
+    ).toDate(),
+  };
+};
+
+interface AvailabilityExceptionsFormProps {
+  doctor: DoctorWithAvailabilities;
+  timeZone: string;
+}
+
+const AvailabilityExceptionsForm = ({
+  doctor,
+  timeZone,
+}: AvailabilityExceptionsFormProps) => {
+  const [rescheduledAppointmentIds, setRescheduledAppointmentIds] = useState<
+    string[]
+  >([]);
+  const [reschedulingAppointmentId, setReschedulingAppointmentId] = useState<
+    string | null
+  >(null);
+  const form = useForm<FormValues>({
+    shouldUnregister: true,
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      type: "block",
+      period: "allDay",
+      startDate: "",
+      endDate: "",
+      fromTime: "",
+      toTime: "",
+      reason: "",
+    },
+  });
+  const type = form.watch("type");
+  const period = form.watch("period");
+  const addAvailabilityException = useAction(addAvailabilityExceptionAction, {
+    onSuccess: ({ data }) => {
+      toast.success(
+        data?.affectedAppointments.length
+          ? `Bloqueio adicionado. ${data.affectedAppointments.length} agendamentos precisam ser reagendados.`
+          : "Exceção adicionada com sucesso!",
+      );
+      setRescheduledAppointmentIds([]);
+      form.reset();
+    },
+    onError: ({ error }) => {
+      const endsAtErrors = error.validationErrors?.endsAt?._errors;
+
+      if (endsAtErrors?.length) {
+        form.setError(
+          type === "block" && period === "allDay" ? "endDate" : "toTime",
+          {
+            message: endsAtErrors[0],
+          },
+        );
+
+        return;
+      }
+
+      toast.error("Erro ao adicionar exceção.");
+    },
+  });
+  const deleteAvailabilityException = useAction(
+    deleteAvailabilityExceptionAction,
+    {
+      onSuccess: () => {
+        toast.success("Exceção removida com sucesso!");
+      },
+      onError: () => {
+        toast.error("Erro ao remover exceção.");
+      },
+    },
+  );
+  const affectedAppointments = (
+    addAvailabilityException.result.data?.affectedAppointments ?? []
+  ).filter(
+    (appointment) => !rescheduledAppointmentIds.includes(appointment.id),
+  );
+  const reschedulingAppointment = affectedAppointments.find(
+    (appointment) => appointment.id === reschedulingAppointmentId,
+  );
+
+  const onSubmit = (values: FormValues) => {
+    addAvailabilityException.execute({
+      doctorId: doctor.id,
+      type: values.type,
+      ...getExceptionRange(values, timeZone),
+      reason: values.reason,
+    });
+  };
+
+  return (
+    <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[500px]">
+      <DialogHeader>
+        <DialogTitle>Exceções de disponibilidade</DialogTitle>
+        <DialogDescription>
+          Bloqueie datas de {doctor.name} (férias, congressos) ou adicione
+          horários extras fora da agenda semanal.
+        </DialogDescription>
+      </DialogHeader>
+      {affectedAppointments.length > 0 && (
+        <div className="border-destructive/50 space-y-2 rounded-md border p-3 text-sm">
+          <p className="text-destructive flex items-center gap-2 font-medium">
+            <AlertTriangleIcon className="size-4" />
+            Agendamentos no período bloqueado
+          </p>
+          <ul className="max-h-40 space-y-1 overflow-y-auto">
+            {affectedAppointments.map((appointment) => (
+              <li
+                key={appointment.id}
+                className="flex items-center justify-between gap-2"
+              >
+                <span>
+                  <span className="font-medium">
+                    {toClinicTime(appointment.date, timeZone).format(
+                      "ddd, DD/MM/YYYY [às] HH:mm",
+                    )}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {" "}
+                    — {appointment.patient.name}
+                  </span>
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setReschedulingAppointmentId(appointment.id)}
+                >
+                  Reagendar
+                </Button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Próximas exceções</p>
+        {doctor.availabilityExceptions.length > 0 ? (
+          <ul className="space-y-2 text-sm">
+            {doctor.availabilityExceptions.map((exception) => (
+              <li
+                key={exception.id}
+                className="flex items-center justify-between gap-2"
+              >
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Badge
+                      variant={
+                        exception.type === "block" ? "destructive" : "outline"
+                      }
+                    >
+                      {availabilityExceptionTypeLabels[exception.type]}
+                    </Badge>
+                    {formatAvailabilityExceptionPeriod(exception, timeZone)}
+                  </div>
+                  {exception.reason && (
+                    <p className="text-muted-foreground text-xs">
+                      {exception.reason}
+                    </p>
+                  )}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  disabled={deleteAvailabilityException.isPending}
+                  onClick={() =>
+                    deleteAvailabilityException.execute({ id: exception.id })
+                  }
+                >
+                  <TrashIcon />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-muted-foreground text-sm">
+            Nenhuma exceção programada.
+          </p>
+        )}
+      </div>
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="type"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Tipo</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {availabilityExceptionTypeEnum.enumValues.map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {availabilityExceptionTypeLabels[type]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {type === "block" && (
+              <FormField
+                control={form.control}
+                name="period"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Período</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="allDay">Dias inteiros</SelectItem>
+                        <SelectItem value="partial">
+                          Horário específico
+                        </SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            <FormField
+              control={form.control}
+              name="startDate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{type === "block" ? "De" : "Data"}</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {type === "block" && (
+              <FormField
+                control={form.control}
+                name="endDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Até</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            {(type === "extra" || period === "partial") &&
+              (["fromTime", "toTime"] as const).map((name) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>
+                        {name === "fromTime" ? "Início" : "Fim"}
+                      </FormLabel>
+                      <Select
+                        onValueChange={field.onChange}
+                        value={field.value}
+                      >
+                        <FormControl>
+                          <SelectTrigger className="w-full">
+                            <SelectValue placeholder="Horário" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {availabilityTimeGroups.map((group) => (
+                            <SelectGroup key={group.label}>
+                              <SelectLabel>{group.label}</SelectLabel>
+                              {group.times.map((time) => (
+                                <SelectItem key={time.value} value={time.value}>
+                                  {time.label}
+                                </SelectItem>
+                              ))}
+                            </SelectGroup>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+          </div>
+          <FormField
+            control={form.control}
+            name="reason"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Motivo (opcional)</FormLabel>
+                <FormControl>
+                  <Input placeholder="Ex.: férias, congresso" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button variant="outline">Fechar</Button>
+            </DialogClose>
+            <Button type="submit" disabled={addAvailabilityException.isPending}>
+              {addAvailabilityException.isPending
+                ? "Salvando..."
+                : "Adicionar exceção"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </Form>
+      <Dialog
+        open={!!reschedulingAppointment}
+        onOpenChange={(open) => !open && setReschedulingAppointmentId(null)}
+      >
+        {reschedulingAppointment && (
+          <RescheduleAppointmentForm
+            appointment={reschedulingAppointment}
+            timeZone={timeZone}
+            onSuccess={() => {
+              setRescheduledAppointmentIds((ids) => [
+                ...ids,
+                reschedulingAppointment.id,
+              ]);
+              setReschedulingAppointmentId(null);
+            }}
+          />
+        )}
+      </Dialog>
+    </DialogContent>
+  );
+};
+
+export default AvailabilityExceptionsForm;
@@ -1,11 +1,24 @@
 "use client";
 
-import { CalendarIcon, ClockIcon, DollarSignIcon } from "lucide-react";
+import {
+  CalendarIcon,
+  CalendarOffIcon,
+  CalendarPlusIcon,
+  DollarSignIcon,
+  TimerIcon,
+} from "lucide-react";
 import { useState } from "react";
 
+import { weekDayLabels } from "@/app/(protected)/appointments/_constants";
+import AvailabilityExceptionsForm from "@/app/(protected)/doctors/_components/availability-exceptions-form";
 import UpsertDoctorForm from "@/app/(protected)/doctors/_components/upsert-doctor-form";
-import { getAvailability } from "@/app/(protected)/doctors/_helpers/availability";
-import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { availabilityExceptionTypeLabels } from "@/app/(protected)/doctors/_constants";
+import {
+  formatAvailabilityExceptionPeriod,
+  groupAvailabilitiesByWeekDay,
+} from "@/app/(protected)/doctors/_helpers/availability";
+import { DoctorWithAvailabilities } from "@/app/(protected)/doctors/_types";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
@@ -16,27 +29,42 @@ import {
 } from "@/components/ui/card";
 import { Dialog, DialogTrigger } from "@/components/ui/dialog";
 import { Separator } from "@/components/ui/separator";
-import { doctorsTable } from "@/db/schema";
+import { formatCrm } from "@/helpers/crm";
 import { formatCurrencyInCents } from "@/helpers/currency";
 
 interface DoctorCardProps {
-  doctor: typeof doctorsTable.$inferSelect;
+  doctor: DoctorWithAvailabilities;
+  users: { id: string; name: string; email: string }[];
+  timeZone: string;
 }
 
-const DoctorCard = ({ doctor }: DoctorCardProps) => {
+const DoctorCard = ({ doctor, users, timeZone }: DoctorCardProps) => {
   const [isUpsertDoctorDialogOpen, setIsUpsertDoctorDialogOpen] =
     useState(false);
+  const [
+    isAvailabilityExceptionsDialogOpen,
+    setIsAvailabilityExceptionsDialogOpen,
+  ] = useState(false);
   const doctorInitials = doctor.name
     .split(" ")
     .map((word) => word[0])
     .join("");
-  const availability = getAvailability(doctor);
+  const availabilityByWeekDay = groupAvailabilitiesByWeekDay(
+    doctor.availabilities,
+  );
 
   return (
     <Card>
       <CardHeader>
         <div className="flex items-center gap-2">
           <Avatar className="h-10 w-10">
+            {doctor.avatarImageUrl && (
+              <AvatarImage
+                src={doctor.avatarImageUrl}
+                alt={doctor.name}
+                className="object-cover"
+              />
+            )}
             <AvatarFallback>{doctorInitials}</AvatarFallback>
           </Avatar>
           <div>
@@ -44,19 +72,48 @@ const DoctorCard = ({ doctor }: DoctorCardProps) => {
             <p className="text-muted-foreground text-sm">
               {doctor.specialty || "Especialidade não informada"}
             </p>
+            <p className="text-muted-foreground text-xs">
+              {formatCrm(doctor) ?? "CRM não informado"}
+            </p>
           </div>
         </div>
       </CardHeader>
       <Separator />
       <CardContent className="flex flex-col gap-2">
+        {availabilityByWeekDay.length > 0 ? (
+          availabilityByWeekDay.map(({ weekDay, windows }) => (
+            <Badge key={weekDay} variant="outline">
+              <CalendarIcon className="mr-1" />
+              {weekDayLabels[weekDay]}:{" "}
+              {windows.map(({ from, to }) => `${from} às ${to}`).join(", ")}
+            </Badge>
+          ))
+        ) : (
+          <Badge variant="outline">
+            <CalendarIcon className="mr-1" />
+            Sem horários de atendimento
+          </Badge>
+        )}
+        {doctor.availabilityExceptions.map((exception) => (
+          <Badge
+            key={exception.id}
+            variant={exception.type === "block" ? "destructive" : "outline"}
+            title={exception.reason ?? undefined}
+          >
+            {exception.type === "block" ? (
+              <CalendarOffIcon className="mr-1" />
+            ) : (
+              <CalendarPlusIcon className="mr-1" />
+            )}
+            {availabilityExceptionTypeLabels[exception.type]}:{" "}
+            {formatAvailabilityExceptionPeriod(exception, timeZone)}
+          </Badge>
+        ))}
         <Badge variant="outline">
-          <CalendarIcon className="mr-1" />
-          {availability.from.format("dddd")} a {availability.to.format("dddd")}
-        </Badge>
-        <Badge variant="outline">
-          <ClockIcon className="mr-1" />
-          {availability.from.format("HH:mm")} as{" "}
-          {availability.to.format("HH:mm")}
+          <TimerIcon className="mr-1" />
+          {doctor.appointmentDurationInMinutes} min por consulta
+          {doctor.appointmentBufferInMinutes > 0 &&
+            ` + ${doctor.appointmentBufferInMinutes} min de intervalo`}
         </Badge>
         <Badge variant="outline">
           <DollarSignIcon className="mr-1" />
@@ -73,16 +130,24 @@ const DoctorCard = ({ doctor }: DoctorCardProps) => {
             <Button className="w-full">Ver detalhes</Button>
           </DialogTrigger>
           <UpsertDoctorForm
-            doctor={{
-              ...doctor,
-              availableFromTime: availability.from.format("HH:mm:ss"),
-              availableToTime: availability.to.format("HH:mm:ss"),
-            }}
+            doctor={doctor}
+            users={users}
             onSuccess={() => {
               setIsUpsertDoctorDialogOpen(false);
             }}
           />
         </Dialog>
+        <Dialog
+          open={isAvailabilityExceptionsDialogOpen}
+          onOpenChange={setIsAvailabilityExceptionsDialogOpen}
+        >
+          <DialogTrigger asChild>
+            <Button variant="outline" className="w-full">
+              Bloqueios e horários extras
+            </Button>
+          </DialogTrigger>
+          <AvailabilityExceptionsForm doctor={doctor} timeZone={timeZone} />
+        </Dialog>
       </CardFooter>
     </Card>
   );
@@ -1,14 +1,26 @@
 import { zodResolver } from "@hookform/resolvers/zod";
-import { TrashIcon } from "lucide-react";
+import { CameraIcon, PlusIcon, TrashIcon, XIcon } from "lucide-react";
 import { useAction } from "next-safe-action/hooks";
-import { useForm } from "react-hook-form";
+import { useEffect, useRef, useState } from "react";
+import { useFieldArray, useForm } from "react-hook-form";
 import { NumericFormat } from "react-number-format";
 import { toast } from "sonner";
 import { z } from "zod";
 
 import { deleteDoctorAction } from "@/actions/delete-doctor";
+import { updateDoctorAvatarAction } from "@/actions/update-doctor-avatar";
 import { upsertDoctorAction } from "@/actions/upsert-doctor";
-import { medicalSpecialties } from "@/app/(protected)/doctors/_constants";
+import { weekDayLabels } from "@/app/(protected)/appointments/_constants";
+import {
+  appointmentBuffers,
+  appointmentDurations,
+  availabilityTimeGroups,
+  DOCTOR_AVATAR_MAX_SIZE_IN_MB,
+  doctorAvatarContentTypes,
+  medicalSpecialties,
+} from "@/app/(protected)/doctors/_constants";
+import { findOverlappingAvailability } from "@/app/(protected)/doctors/_helpers/availability";
+import { DoctorWithAvailabilities } from "@/app/(protected)/doctors/_types";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -20,6 +32,7 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import {
   DialogClose,
@@ -32,12 +45,14 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import {
   Select,
   SelectContent,
@@ -47,69 +62,174 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { doctorsTable } from "@/db/schema";
+import { brazilianStateEnum } from "@/db/schema";
+import { isValidCrmNumber } from "@/helpers/crm";
 
-const formSchema = z
-  .object({
-    name: z.string().trim().min(1, { message: "Nome é obrigatório" }),
-    specialty: z
-      .string()
-      .trim()
-      .min(1, { message: "Especialidade é obrigatória" }),
-    appointmentPrice: z
-      .number()
-      .min(1, { message: "Preço da consulta é obrigatório" }),
-    availableFromWeekDay: z.string(),
-    availableToWeekDay: z.string(),
-    availableFromTime: z
-      .string()
-      .min(1, { message: "Hora de início é obrigatória" }),
-    availableToTime: z
-      .string()
-      .min(1, { message: "Hora de término é obrigatória" }),
-  })
-  .refine(
-    (data) => {
-      return data.availableFromTime < data.availableToTime;
-    },
-    {
-      message:
-        "O horário de início não pode ser anterior ao horário de término.",
-      path: ["availableToTime"],
-    },
-  );
+const formSchema = z.object({
+  name: z.string().trim().min(1, { message: "Nome é obrigatório" }),
+  specialty: z
+    .string()
+    .trim()
+    .min(1, { message: "Especialidade é obrigatória" }),
+  crmNumber: z
+    .string()
+    .trim()
+    .min(1, { message: "CRM é obrigatório" })
+    .refine(isValidCrmNumber, { message: "CRM inválido" }),
+  crmState: z.enum(brazilianStateEnum.enumValues, {
+    message: "UF é obrigatória",
+  }),
+  appointmentPrice: z
+    .number()
+    .min(1, { message: "Preço da consulta é obrigatório" }),
+  appointmentDurationInMinutes: z.string(),
+  appointmentBufferInMinutes: z.string(),
+  availabilities: z
+    .array(
+      z
+        .object({
+          weekDay: z.string(),
+          fromTime: z.string().min(1, { message: "Obrigatório" }),
+          toTime: z.string().min(1, { message: "Obrigatório" }),
+        })
+        .refine((data) => data.fromTime < data.toTime, {
+          message: "Deve ser após o início",
+          path: ["toTime"],
+        }),
+    )
+    .min(1)
+    .superRefine((availabilities, ctx) => {
+      const overlappingIndex = findOverlappingAvailability(
+        availabilities.map((availability) => ({
+          ...availability,
+          weekDay: Number(availability.weekDay),
+        })),
+      );
+
+      if (overlappingIndex !== -1) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "Sobrepõe outro horário",
+          path: [overlappingIndex, "fromTime"],
+        });
+      }
+    }),
+  userId: z.string(),
+  // undefined keeps the current photo and null removes it.
+  avatar: z
+    .instanceof(File)
+    .refine((file) => doctorAvatarContentTypes.includes(file.type), {
+      message: "Envie uma imagem JPG, PNG ou WebP",
+    })
+    .refine((file) => file.size <= DOCTOR_AVATAR_MAX_SIZE_IN_MB * 1024 * 1024, {
+      message: `A imagem deve ter no máximo ${DOCTOR_AVATAR_MAX_SIZE_IN_MB} MB`,
+    })
+    .nullable()
+    .optional(),
+});
+
+const NO_USER = "none";
 
 interface UpsertDoctorFormProps {
-  doctor?: typeof doctorsTable.$inferInsert;
+  doctor?: DoctorWithAvailabilities;
+  users: { id: string; name: string; email: string }[];
   onSuccess?: () => void;
 }
 
-const UpsertDoctorForm = ({ doctor, onSuccess }: UpsertDoctorFormProps) => {
+const UpsertDoctorForm = ({
+  doctor,
+  users,
+  onSuccess,
+}: UpsertDoctorFormProps) => {
   const form = useForm<z.infer<typeof formSchema>>({
     shouldUnregister: true,
     resolver: zodResolver(formSchema),
     defaultValues: {
       name: doctor?.name ?? "",
       specialty: doctor?.specialty ?? "",
+      crmNumber: doctor?.crmNumber ?? "",
+      crmState: doctor?.crmState ?? undefined,
       appointmentPrice: doctor?.appointmentPriceInCents
         ? doctor.appointmentPriceInCents / 100
         : 0,
-      availableFromWeekDay: doctor?.availableFromWeekDay?.toString() ?? "1",
-      availableToWeekDay: doctor?.availableToWeekDay?.toString() ?? "5",
-      availableFromTime: doctor?.availableFromTime ?? "",
-      availableToTime: doctor?.availableToTime ?? "",
+      appointmentDurationInMinutes:
+        doctor?.appointmentDurationInMinutes?.toString() ?? "30",
+      appointmentBufferInMinutes:
+        doctor?.appointmentBufferInMinutes?.toString() ?? "0",
+      availabilities: doctor?.availabilities.map((availability) => ({
+        weekDay: availability.weekDay.toString(),
+        fromTime: availability.fromTime,
+        toTime: availability.toTime,
+      })) ?? [{ weekDay: "1", fromTime: "", toTime: "" }],
+      userId: doctor?.userId ?? NO_USER,
+      avatar: undefined,
+    },
+  });
+  const avatarInputRef = useRef<HTMLInputElement>(null);
+  const avatar = form.watch("avatar");
+  const [avatarPreviewUrl, setAvatarPreviewUrl] = useState(
+    doctor?.avatarImageUrl ?? null,
+  );
+
+  useEffect(() => {
+    if (avatar === undefined) return;
+
+    if (!avatar) {
+      setAvatarPreviewUrl(null);
+      return;
+    }
+
+    const url = URL.createObjectURL(avatar);
+    setAvatarPreviewUrl(url);
+
+    return () => URL.revokeObjectURL(url);
+  }, [avatar]);
+
+  const availabilities = useFieldArray({
+    control: form.control,
+    name: "availabilities",
+  });
+  const handleSaved = () => {
+    toast.success(
+      doctor
+        ? "Médico atualizado com sucesso!"
+        : "Médico adicionado com sucesso!",
+    );
+    onSuccess?.();
+  };
+  const updateDoctorAvatar = useAction(updateDoctorAvatarAction, {
+    onSuccess: handleSaved,
+    onError: ({ error }) => {
+      const avatarErrors = error.validationErrors?.avatar?._errors;
+
+      if (avatarErrors?.length) {
+        form.setError("avatar", { message: avatarErrors[0] });
+      }
+
+      toast.error("Médico salvo, mas houve um erro ao enviar a foto.");
     },
   });
+  // The photo is uploaded once the doctor exists, so new doctors get one too.
   const upsertDoctor = useAction(upsertDoctorAction, {
-    onSuccess: () => {
-      toast.success(
-        doctor
-          ? "Médico atualizado com sucesso!"
-          : "Médico adicionado com sucesso!",
-      );
-      onSuccess?.();
+    onSuccess: ({ data }) => {
+      const avatar = form.getValues("avatar");
+
+      if (data && avatar !== undefined) {
+        updateDoctorAvatar.execute({ doctorId: data.id, avatar });
+        return;
+      }
+
+      handleSaved();
     },
-    onError: () => {
+    onError: ({ error }) => {
+      const crmNumberErrors = error.validationErrors?.crmNumber?._errors;
+
+      if (crmNumberErrors?.length) {
+        form.setError("crmNumber", { message: crmNumberErrors[0] });
+
+        return;
+      }
+
       toast.error("Erro ao adicionar médico.");
     },
   });
@@ -118,11 +238,15 @@ const UpsertDoctorForm = ({ doctor, onSuccess }: UpsertDoctorFormProps) => {
       toast.success("Médico excluído com sucesso!");
       onSuccess?.();
     },
-    onError: () => {
-      toast.error("Erro ao excluir médico.");
+    onError: ({ error }) => {
+      toast.error(
+        error.validationErrors?._errors?.[0] ?? "Erro ao excluir médico.",
+      );
     },
   });
 
+  const isSaving = upsertDoctor.isPending || updateDoctorAvatar.isPending;
+
   const handleDeleteDoctorClick = () => {
     if (!doctor?.id) return;
     deleteDoctor.execute({ id: doctor.id });
@@ -130,16 +254,26 @@ const UpsertDoctorForm = ({ doctor, onSuccess }: UpsertDoctorFormProps) => {
 
   const onSubmit = (values: z.infer<typeof formSchema>) => {
     upsertDoctor.execute({
-      ...values,
       id: doctor?.id,
+      name: values.name,
+      specialty: values.specialty,
+      crmNumber: values.crmNumber,
+      crmState: values.crmState,
       appointmentPriceInCents: values.appointmentPrice * 100,
-      availableFromWeekDay: parseInt(values.availableFromWeekDay),
-      availableToWeekDay: parseInt(values.availableToWeekDay),
+      appointmentDurationInMinutes: parseInt(
+        values.appointmentDurationInMinutes,
+      ),
+      appointmentBufferInMinutes: parseInt(values.appointmentBufferInMinutes),
+      availabilities: values.availabilities.map((availability) => ({
+        ...availability,
+        weekDay: parseInt(availability.weekDay),
+      })),
+      userId: values.userId === NO_USER ? null : values.userId,
     });
   };
 
   return (
-    <DialogContent className="sm:max-w-[425px]">
+    <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[500px]">
       <Form {...form}>
         <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
           <DialogHeader>
@@ -152,6 +286,58 @@ const UpsertDoctorForm = ({ doctor, onSuccess }: UpsertDoctorFormProps) => {
                 : "Preencha os dados do novo médico."}
             </DialogDescription>
           </DialogHeader>
+          <FormField
+            control={form.control}
+            name="avatar"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Foto</FormLabel>
+                <div className="flex items-center gap-4">
+                  <Avatar className="h-16 w-16">
+                    {avatarPreviewUrl && (
+                      <AvatarImage
+                        src={avatarPreviewUrl}
+                        alt={doctor?.name}
+                        className="object-cover"
+                      />
+                    )}
+                    <AvatarFallback>
+                      <CameraIcon className="text-muted-foreground" />
+                    </AvatarFallback>
+                  </Avatar>
+                  <FormControl>
+                    <Input
+                      ref={avatarInputRef}
+                      type="file"
+                      accept={doctorAvatarContentTypes.join(",")}
+                      onChange={(event) =>
+                        field.onChange(event.target.files?.[0] ?? undefined)
+                      }
+                    />
+                  </FormControl>
+                  {avatarPreviewUrl && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => {
+                        if (avatarInputRef.current) {
+                          avatarInputRef.current.value = "";
+                        }
+                        field.onChange(null);
+                      }}
+                    >
+                      <XIcon />
+                    </Button>
+                  )}
+                </div>
+                <FormDescription>
+                  JPG, PNG ou WebP com até {DOCTOR_AVATAR_MAX_SIZE_IN_MB} MB.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
           <FormField
             control={form.control}
             name="name"
@@ -192,6 +378,83 @@ const UpsertDoctorForm = ({ doctor, onSuccess }: UpsertDoctorFormProps) => {
               </FormItem>
             )}
           />
+          <div className="flex items-start gap-4">
+            <FormField
+              control={form.control}
+              name="crmNumber"
+              render={({ field }) => (
+                <FormItem className="flex-1">
+                  <FormLabel>CRM</FormLabel>
+                  <FormControl>
+                    <Input
+                      inputMode="numeric"
+                      placeholder="Número do CRM"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="crmState"
+              render={({ field }) => (
+                <FormItem className="w-28">
+                  <FormLabel>UF</FormLabel>
+                  <Select
+                    onValueChange={field.onChange}
+                    defaultValue={field.value}
+                  >
+                    <FormControl>
+                      <SelectTrigger className="w-full">
+                        <SelectValue placeholder="UF" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {brazilianStateEnum.enumValues.map((state) => (
+                        <SelectItem key={state} value={state}>
+                          {state}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+          <FormField
+            control={form.control}
+            name="userId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Usuário vinculado</FormLabel>
+                <Select
+                  onValueChange={field.onChange}
+                  defaultValue={field.value}
+                >
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Selecione um usuário" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value={NO_USER}>Nenhum</SelectItem>
+                    {users.map((user) => (
+                      <SelectItem key={user.id} value={user.id}>
+                        {user.name} ({user.email})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>
+                  Permite que o médico acesse os prontuários que escrever.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
           <FormField
             control={form.control}
             name="appointmentPrice"
@@ -218,32 +481,22 @@ const UpsertDoctorForm = ({ doctor, onSuccess }: UpsertDoctorFormProps) => {
           />
           <FormField
             control={form.control}
-            name="availableFromWeekDay"
+            name="appointmentDurationInMinutes"
             render={({ field }) => (
               <FormItem>
-                <FormLabel>Dia inicial de disponibilidade</FormLabel>
+                <FormLabel>Duração da consulta</FormLabel>
                 <FormControl>
                   <Select
                     onValueChange={field.onChange}
                     defaultValue={field.value}
                   >
                     <SelectTrigger className="w-full">
-                      <SelectValue placeholder="Selecione o dia" />
+                      <SelectValue placeholder="Selecione a duração" />
                     </SelectTrigger>
                     <SelectContent>
-                      {[...Array(7).keys()].map((day) => (
-                        <SelectItem key={day} value={day.toString()}>
-                          {
-                            [
-                              "Domingo",
-                              "Segunda",
-                              "Terça",
-                              "Quarta",
-                              "Quinta",
-                              "Sexta",
-                              "Sábado",
-                            ][day]
-                          }
+                      {appointmentDurations.map((duration) => (
+                        <SelectItem key={duration} value={duration.toString()}>
+                          {duration} minutos
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -255,32 +508,22 @@ const UpsertDoctorForm = ({ doctor, onSuccess }: UpsertDoctorFormProps) => {
           />
           <FormField
             control={form.control}
-            name="availableToWeekDay"
+            name="appointmentBufferInMinutes"
             render={({ field }) => (
               <FormItem>
-                <FormLabel>Dia final de disponibilidade</FormLabel>
+                <FormLabel>Intervalo entre consultas</FormLabel>
                 <FormControl>
                   <Select
                     onValueChange={field.onChange}
                     defaultValue={field.value}
                   >
                     <SelectTrigger className="w-full">
-                      <SelectValue placeholder="Selecione o dia" />
+                      <SelectValue placeholder="Selecione o intervalo" />
                     </SelectTrigger>
                     <SelectContent>
-                      {[...Array(7).keys()].map((day) => (
-                        <SelectItem key={day} value={day.toString()}>
-                          {
-                            [
-                              "Domingo",
-                              "Segunda",
-                              "Terça",
-                              "Quarta",
-                              "Quinta",
-                              "Sexta",
-                              "Sábado",
-                            ][day]
-                          }
+                      {appointmentBuffers.map((buffer) => (
+                        <SelectItem key={buffer} value={buffer.toString()}>
+                          {buffer === 0 ? "Sem intervalo" : `${buffer} minutos`}
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -290,128 +533,107 @@ const UpsertDoctorForm = ({ doctor, onSuccess }: UpsertDoctorFormProps) => {
               </FormItem>
             )}
           />
-          <FormField
-            control={form.control}
-            name="availableFromTime"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Hora inicial de disponibilidade</FormLabel>
-                <FormControl>
-                  <Select
-                    onValueChange={field.onChange}
-                    defaultValue={field.value}
-                  >
-                    <SelectTrigger className="w-full">
-                      <SelectValue placeholder="Selecione a hora" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectGroup>
-                        <SelectLabel>Manhã</SelectLabel>
-                        {Array.from({ length: 16 }, (_, i) => {
-                          const hour = 5 + Math.floor(i / 2);
-                          const minute = i % 2 === 0 ? "00" : "30";
-                          const value = `${hour.toString().padStart(2, "0")}:${minute}:00`;
-                          return (
-                            <SelectItem key={value} value={value}>
-                              {`${hour.toString().padStart(2, "0")}:${minute}`}
-                            </SelectItem>
-                          );
-                        })}
-                      </SelectGroup>
-                      <SelectGroup>
-                        <SelectLabel>Tarde</SelectLabel>
-                        {Array.from({ length: 12 }, (_, i) => {
-                          const hour = 13 + Math.floor(i / 2);
-                          const minute = i % 2 === 0 ? "00" : "30";
-                          const value = `${hour.toString().padStart(2, "0")}:${minute}:00`;
-                          return (
-                            <SelectItem key={value} value={value}>
-                              {`${hour.toString().padStart(2, "0")}:${minute}`}
-                            </SelectItem>
-                          );
-                        })}
-                      </SelectGroup>
-                      <SelectGroup>
-                        <SelectLabel>Noite</SelectLabel>
-                        {Array.from({ length: 10 }, (_, i) => {
-                          const hour = 19 + Math.floor(i / 2);
-                          const minute = i % 2 === 0 ? "00" : "30";
-                          const value = `${hour.toString().padStart(2, "0")}:${minute}:00`;
-                          return (
-                            <SelectItem key={value} value={value}>
-                              {`${hour.toString().padStart(2, "0")}:${minute}`}
-                            </SelectItem>
-                          );
-                        })}
-                      </SelectGroup>
-                    </SelectContent>
-                  </Select>
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-          <FormField
-            control={form.control}
-            name="availableToTime"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Hora final de disponibilidade</FormLabel>
-                <FormControl>
-                  <Select
-                    onValueChange={field.onChange}
-                    defaultValue={field.value}
-                  >
-                    <SelectTrigger className="w-full">
-                      <SelectValue placeholder="Selecione a hora" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectGroup>
-                        <SelectLabel>Manhã</SelectLabel>
-                        {Array.from({ length: 16 }, (_, i) => {
-                          const hour = 5 + Math.floor(i / 2);
-                          const minute = i % 2 === 0 ? "00" : "30";
-                          const value = `${hour.toString().padStart(2, "0")}:${minute}:00`;
-                          return (
-                            <SelectItem key={value} value={value}>
-                              {`${hour.toString().padStart(2, "0")}:${minute}`}
-                            </SelectItem>
-                          );
-                        })}
-                      </SelectGroup>
-                      <SelectGroup>
-                        <SelectLabel>Tarde</SelectLabel>
-                        {Array.from({ length: 12 }, (_, i) => {
-                          const hour = 13 + Math.floor(i / 2);
-                          const minute = i % 2 === 0 ? "00" : "30";
-                          const value = `${hour.toString().padStart(2, "0")}:${minute}:00`;
-                          return (
-                            <SelectItem key={value} value={value}>
-                              {`${hour.toString().padStart(2, "0")}:${minute}`}
-                            </SelectItem>
-                          );
-                        })}
-                      </SelectGroup>
-                      <SelectGroup>
-                        <SelectLabel>Noite</SelectLabel>
-                        {Array.from({ length: 10 }, (_, i) => {
-                          const hour = 19 + Math.floor(i / 2);
-                          const minute = i % 2 === 0 ? "00" : "30";
-                          const value = `${hour.toString().padStart(2, "0")}:${minute}:00`;
-                          return (
-                            <SelectItem key={value} value={value}>
-                              {`${hour.toString().padStart(2, "0")}:${minute}`}
+          <div className="space-y-2">
+            <Label>Horários de atendimento</Label>
+            {availabilities.fields.map((availability, index) => (
+              <div key={availability.id} className="flex items-start gap-2">
+                <FormField
+                  control={form.control}
+                  name={`availabilities.${index}.weekDay`}
+                  render={({ field }) => (
+                    <FormItem className="flex-1">
+                      <Select
+                        onValueChange={field.onChange}
+                        defaultValue={field.value}
+                      >
+                        <FormControl>
+                          <SelectTrigger className="w-full">
+                            <SelectValue placeholder="Dia" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {weekDayLabels.map((label, weekDay) => (
+                            <SelectItem
+                              key={weekDay}
+                              value={weekDay.toString()}
+                            >
+                              {label}
                             </SelectItem>
-                          );
-                        })}
-                      </SelectGroup>
-                    </SelectContent>
-                  </Select>
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {(["fromTime", "toTime"] as const).map((name) => (
+                  <FormField
+                    key={name}
+                    control={form.control}
+                    name={`availabilities.${index}.${name}`}
+                    render={({ field }) => (
+                      <FormItem className="flex-1">
+                        <Select
+                          onValueChange={field.onChange}
+                          defaultValue={field.value}
+                        >
+                          <FormControl>
+                            <SelectTrigger className="w-full">
+                              <SelectValue
+                                placeholder={
+                                  name === "fromTime" ? "Início" : "Fim"
+                                }
+                              />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {availabilityTimeGroups.map((group) => (
+                              <SelectGroup key={group.label}>
+                                <SelectLabel>{group.label}</SelectLabel>
+                                {group.times.map((time) => (
+                                  <SelectItem
+                                    key={time.value}
+                                    value={time.value}
+                                  >
+                                    {time.label}
+                                  </SelectItem>
+                                ))}
+                              </SelectGroup>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  disabled={availabilities.fields.length === 1}
+                  onClick={() => availabilities.remove(index)}
+                >
+                  <XIcon />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                availabilities.append({
+                  weekDay: "1",
+                  fromTime: "",
+                  toTime: "",
+                })
+              }
+            >
+              <PlusIcon />
+              Adicionar horário
+            </Button>
+          </div>
           <DialogFooter>
             <DialogClose asChild>
               <Button variant="outline">Cancelar</Button>
@@ -443,12 +665,8 @@ const UpsertDoctorForm = ({ doctor, onSuccess }: UpsertDoctorFormProps) => {
                 </AlertDialogContent>
               </AlertDialog>
             )}
-            <Button type="submit" disabled={upsertDoctor.isPending}>
-              {upsertDoctor.isPending
-                ? "Salvando..."
-                : doctor
-                  ? "Salvar"
-                  : "Adicionar"}
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? "Salvando..." : doctor ? "Salvar" : "Adicionar"}
             </Button>
           </DialogFooter>
         </form>
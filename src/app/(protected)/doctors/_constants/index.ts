@@ -1,3 +1,5 @@
+import { availabilityExceptionTypeEnum } from "@/db/schema";
+
 export enum MedicalSpecialty {
   ALERGOLOGIA = "Alergologia",
   ANESTESIOLOGIA = "Anestesiologia",
@@ -56,3 +58,44 @@ export const medicalSpecialties = Object.entries(MedicalSpecialty).map(
     label: value,
   }),
 );
+
+export const appointmentDurations = [15, 20, 30, 40, 45, 50, 60, 90, 120];
+
+export const appointmentBuffers = [0, 5, 10, 15, 20, 30];
+
+export const MAX_APPOINTMENT_DURATION_IN_MINUTES = 480;
+
+export const MAX_APPOINTMENT_BUFFER_IN_MINUTES = 120;
+
+const getHalfHourTimes = (fromHour: number, toHour: number) =>
+  Array.from({ length: (toHour - fromHour) * 2 }, (_, index) => {
+    const hour = (fromHour + Math.floor(index / 2)).toString().padStart(2, "0");
+    const minute = index % 2 === 0 ? "00" : "30";
+
+    return { value: `${hour}:${minute}:00`, label: `${hour}:${minute}` };
+  });
+
+export const availabilityTimeGroups = [
+  { label: "Manhã", times: getHalfHourTimes(5, 13) },
+  { label: "Tarde", times: getHalfHourTimes(13, 19) },
+  { label: "Noite", times: getHalfHourTimes(19, 24) },
+];
+
+export type AvailabilityExceptionType =
+  (typeof availabilityExceptionTypeEnum.enumValues)[number];
+
+export const availabilityExceptionTypeLabels: Record<
+  AvailabilityExceptionType,
+  string
+> = {
+  block: "Bloqueio",
+  extra: "Horário extra",
+};
+
+export const DOCTOR_AVATAR_MAX_SIZE_IN_MB = 2;
+
+export const doctorAvatarContentTypes = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+];
@@ -1,32 +1,245 @@
 import "dayjs/locale/pt-br";
 
-import dayjs from "dayjs";
-import utc from "dayjs/plugin/utc";
+import dayjs, { Dayjs } from "dayjs";
 
-import { doctorsTable } from "@/db/schema";
+import {
+  MAX_APPOINTMENT_BUFFER_IN_MINUTES,
+  MAX_APPOINTMENT_DURATION_IN_MINUTES,
+} from "@/app/(protected)/doctors/_constants";
+import { DoctorWithAvailabilities } from "@/app/(protected)/doctors/_types";
+import {
+  appointmentsTable,
+  doctorAvailabilitiesTable,
+  doctorAvailabilityExceptionsTable,
+} from "@/db/schema";
+import {
+  getClinicDate,
+  getClinicDateTime,
+  getClinicDayRange,
+  toClinicTime,
+} from "@/helpers/time-zone";
 
-dayjs.extend(utc);
 dayjs.locale("pt-br");
 
-export const getAvailability = (doctor: typeof doctorsTable.$inferSelect) => {
-  const from = dayjs()
-    .utc()
-    .day(doctor.availableFromWeekDay)
-    .set("hour", Number(doctor.availableFromTime.split(":")[0]))
-    .set("minute", Number(doctor.availableFromTime.split(":")[1]))
-    .set("second", Number(doctor.availableFromTime.split(":")[2] || 0))
-    .local();
-
-  const to = dayjs()
-    .utc()
-    .day(doctor.availableToWeekDay)
-    .set("hour", Number(doctor.availableToTime.split(":")[0]))
-    .set("minute", Number(doctor.availableToTime.split(":")[1]))
-    .set("second", Number(doctor.availableToTime.split(":")[2] || 0))
-    .local();
-
-  return {
-    from,
-    to,
-  };
+type AvailabilityWindow = Pick<
+  typeof doctorAvailabilitiesTable.$inferSelect,
+  "weekDay" | "fromTime" | "toTime"
+>;
+
+type AvailabilityException = Pick<
+  typeof doctorAvailabilityExceptionsTable.$inferSelect,
+  "type" | "startsAt" | "endsAt"
+>;
+
+type TimeWindow = { from: Dayjs; to: Dayjs };
+
+const formatTime = (time: string) => time.slice(0, 5);
+
+export const getAvailability = (availability: AvailabilityWindow) => ({
+  from: formatTime(availability.fromTime),
+  to: formatTime(availability.toTime),
+});
+
+export const groupAvailabilitiesByWeekDay = (
+  availabilities: AvailabilityWindow[],
+) =>
+  [...new Set(availabilities.map((availability) => availability.weekDay))]
+    .sort((a, b) => a - b)
+    .map((weekDay) => ({
+      weekDay,
+      windows: availabilities
+        .filter((availability) => availability.weekDay === weekDay)
+        .map(getAvailability)
+        .sort((a, b) => a.from.localeCompare(b.from)),
+    }));
+
+// Windows must not overlap within a weekday, otherwise slots are offered
+// twice. Returns the index of the first window that overlaps a previous one.
+export const findOverlappingAvailability = (
+  availabilities: AvailabilityWindow[],
+) =>
+  availabilities.findIndex((availability, index) =>
+    availabilities
+      .slice(0, index)
+      .some(
+        (other) =>
+          other.weekDay === availability.weekDay &&
+          other.fromTime < availability.toTime &&
+          availability.fromTime < other.toTime,
+      ),
+  );
+
+const mergeWindows = (windows: TimeWindow[]) =>
+  [...windows]
+    .sort((a, b) => a.from.diff(b.from))
+    .reduce<TimeWindow[]>((merged, window) => {
+      const last = merged[merged.length - 1];
+
+      if (last && !window.from.isAfter(last.to)) {
+        last.to = window.to.isAfter(last.to) ? window.to : last.to;
+
+        return merged;
+      }
+
+      return [...merged, { ...window }];
+    }, []);
+
+const subtractWindow = (windows: TimeWindow[], block: TimeWindow) =>
+  windows.flatMap((window) => {
+    if (!block.from.isBefore(window.to) || !block.to.isAfter(window.from)) {
+      return [window];
+    }
+
+    return [
+      ...(window.from.isBefore(block.from)
+        ? [{ from: window.from, to: block.from }]
+        : []),
+      ...(block.to.isBefore(window.to)
+        ? [{ from: block.to, to: window.to }]
+        : []),
+    ];
+  });
+
+// Weekly windows plus extra shifts, minus blocks, for a single clinic day.
+export const getAvailabilitiesForDate = (
+  doctor: DoctorWithAvailabilities,
+  date: string,
+  timeZone: string,
+) => {
+  const { start: day, end: nextDay } = getClinicDayRange(date, timeZone);
+  const getExceptionWindows = (type: AvailabilityException["type"]) =>
+    doctor.availabilityExceptions
+      .filter(
+        (exception) =>
+          exception.type === type &&
+          nextDay.isAfter(exception.startsAt) &&
+          day.isBefore(exception.endsAt),
+      )
+      .map((exception) => ({
+        from: day.isAfter(exception.startsAt)
+          ? day
+          : toClinicTime(exception.startsAt, timeZone),
+        to: nextDay.isBefore(exception.endsAt)
+          ? nextDay
+          : toClinicTime(exception.endsAt, timeZone),
+      }));
+
+  const weeklyWindows = doctor.availabilities
+    .filter((availability) => availability.weekDay === day.day())
+    .map((availability) => ({
+      from: getClinicDateTime(date, availability.fromTime, timeZone),
+      to: getClinicDateTime(date, availability.toTime, timeZone),
+    }));
+
+  return getExceptionWindows("block").reduce(
+    subtractWindow,
+    mergeWindows([...weeklyWindows, ...getExceptionWindows("extra")]),
+  );
+};
+
+export const isWithinAvailability = (
+  doctor: DoctorWithAvailabilities,
+  start: Date,
+  end: Date,
+  timeZone: string,
+) => {
+  const date = getClinicDate(start, timeZone);
+
+  if (getClinicDate(end, timeZone) !== date) {
+    return false;
+  }
+
+  return getAvailabilitiesForDate(doctor, date, timeZone).some(
+    (availability) =>
+      !dayjs(start).isBefore(availability.from) &&
+      !dayjs(end).isAfter(availability.to),
+  );
+};
+
+// Full-day exceptions start and end at the clinic's midnight, wherever they
+// were created from.
+export const isFullDayException = (
+  exception: AvailabilityException,
+  timeZone: string,
+) =>
+  toClinicTime(exception.startsAt, timeZone).format("HH:mm") === "00:00" &&
+  toClinicTime(exception.endsAt, timeZone).format("HH:mm") === "00:00";
+
+export const formatAvailabilityExceptionPeriod = (
+  exception: AvailabilityException,
+  timeZone: string,
+) => {
+  const startsAt = toClinicTime(exception.startsAt, timeZone);
+  const endsAt = toClinicTime(exception.endsAt, timeZone);
+
+  if (isFullDayException(exception, timeZone)) {
+    const lastDay = endsAt.subtract(1, "day");
+
+    return lastDay.isSame(startsAt, "day")
+      ? startsAt.format("DD/MM/YYYY")
+      : `${startsAt.format("DD/MM/YYYY")} a ${lastDay.format("DD/MM/YYYY")}`;
+  }
+
+  if (startsAt.isSame(endsAt, "day")) {
+    return `${startsAt.format("DD/MM/YYYY")}, ${startsAt.format("HH:mm")} às ${endsAt.format("HH:mm")}`;
+  }
+
+  return `${startsAt.format("DD/MM/YYYY HH:mm")} a ${endsAt.format("DD/MM/YYYY HH:mm")}`;
+};
+
+// Doctors hold the length of new bookings; appointments keep the one they
+// were booked with.
+export type AppointmentLength = Pick<
+  typeof appointmentsTable.$inferSelect,
+  "appointmentDurationInMinutes" | "appointmentBufferInMinutes"
+>;
+
+// An appointment keeps the doctor busy for its duration plus the buffer.
+export const getOccupiedMinutes = (length: AppointmentLength) =>
+  length.appointmentDurationInMinutes + length.appointmentBufferInMinutes;
+
+// Upper bound of getOccupiedMinutes, for queries that must find every
+// appointment still running at a given time.
+export const MAX_OCCUPIED_MINUTES =
+  MAX_APPOINTMENT_DURATION_IN_MINUTES + MAX_APPOINTMENT_BUFFER_IN_MINUTES;
+
+export const getTimeSlots = (
+  doctor: DoctorWithAvailabilities,
+  date: string,
+  timeZone: string,
+) => {
+  const slots: Date[] = [];
+  const slotIntervalInMinutes = getOccupiedMinutes(doctor);
+
+  for (const availability of getAvailabilitiesForDate(doctor, date, timeZone)) {
+    for (
+      let slot = availability.from;
+      !slot
+        .add(doctor.appointmentDurationInMinutes, "minute")
+        .isAfter(availability.to);
+      slot = slot.add(slotIntervalInMinutes, "minute")
+    ) {
+      slots.push(slot.toDate());
+    }
+  }
+
+  return slots;
+};
+
+export const isTimeSlotTaken = (
+  slotLength: AppointmentLength,
+  slot: Date,
+  appointments: ({ date: Date } & AppointmentLength)[],
+) => {
+  const slotStart = dayjs(slot);
+  const slotEnd = slotStart.add(getOccupiedMinutes(slotLength), "minute");
+
+  return appointments.some((appointment) => {
+    const start = dayjs(appointment.date);
+
+    return (
+      start.isBefore(slotEnd) &&
+      start.add(getOccupiedMinutes(appointment), "minute").isAfter(slotStart)
+    );
+  });
 };
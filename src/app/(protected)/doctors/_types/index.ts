@@ -0,0 +1,10 @@
+import {
+  doctorAvailabilitiesTable,
+  doctorAvailabilityExceptionsTable,
+  doctorsTable,
+} from "@/db/schema";
+
+export type DoctorWithAvailabilities = typeof doctorsTable.$inferSelect & {
+  availabilities: (typeof doctorAvailabilitiesTable.$inferSelect)[];
+  availabilityExceptions: (typeof doctorAvailabilityExceptionsTable.$inferSelect)[];
+};
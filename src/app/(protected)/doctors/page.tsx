@@ -1,4 +1,4 @@
-import { eq } from "drizzle-orm";
+import { asc, eq, gt } from "drizzle-orm";
 import { headers } from "next/headers";
 import { redirect } from "next/navigation";
 
@@ -14,7 +14,11 @@ import {
   PageTitle,
 } from "@/components/ui/page-container";
 import { db } from "@/db";
-import { doctorsTable } from "@/db/schema";
+import {
+  doctorAvailabilityExceptionsTable,
+  doctorsTable,
+  usersToClinicsTable,
+} from "@/db/schema";
 import { auth } from "@/lib/auth";
 
 const DoctorsPage = async () => {
@@ -30,9 +34,32 @@ const DoctorsPage = async () => {
     redirect("/clinic-form");
   }
 
-  const doctors = await db.query.doctorsTable.findMany({
-    where: eq(doctorsTable.clinicId, session.user.clinic.id),
-  });
+  const [doctors, clinicMembers] = await Promise.all([
+    db.query.doctorsTable.findMany({
+      where: eq(doctorsTable.clinicId, session.user.clinic.id),
+      with: {
+        availabilities: true,
+        availabilityExceptions: {
+          where: gt(doctorAvailabilityExceptionsTable.endsAt, new Date()),
+          orderBy: [asc(doctorAvailabilityExceptionsTable.startsAt)],
+        },
+      },
+    }),
+    db.query.usersToClinicsTable.findMany({
+      where: eq(usersToClinicsTable.clinicId, session.user.clinic.id),
+      with: {
+        user: {
+          columns: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+      },
+    }),
+  ]);
+  const users = clinicMembers.map((member) => member.user);
+  const timeZone = session.user.clinic.timeZone;
 
   return (
     <PageContainer>
@@ -42,14 +69,19 @@ const DoctorsPage = async () => {
           <PageDescription>Gerencie os médicos de sua clínica</PageDescription>
         </PageHeaderContent>
         <PageActions>
-          <AddDoctorButton />
+          <AddDoctorButton users={users} />
         </PageActions>
       </PageHeader>
       <PageContent>
         {doctors.length > 0 ? (
           <div className="grid grid-cols-3 gap-6">
             {doctors.map((doctor) => (
-              <DoctorCard key={doctor.id} doctor={doctor} />
+              <DoctorCard
+                key={doctor.id}
+                doctor={doctor}
+                users={users}
+                timeZone={timeZone}
+              />
             ))}
           </div>
         ) : (
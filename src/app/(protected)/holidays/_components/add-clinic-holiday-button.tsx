@@ -0,0 +1,26 @@
+"use client";
+
+import { Plus } from "lucide-react";
+import { useState } from "react";
+
+import AddClinicHolidayForm from "@/app/(protected)/holidays/_components/add-clinic-holiday-form";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogTrigger } from "@/components/ui/dialog";
+
+const AddClinicHolidayButton = () => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button>
+          <Plus />
+          Adicionar feriado
+        </Button>
+      </DialogTrigger>
+      <AddClinicHolidayForm onSuccess={() => setIsOpen(false)} />
+    </Dialog>
+  );
+};
+
+export default AddClinicHolidayButton;
@@ -0,0 +1,182 @@
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useAction } from "next-safe-action/hooks";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+import { z } from "zod";
+
+import { addClinicHolidayAction } from "@/actions/add-clinic-holiday";
+import { holidayTypeLabels } from "@/app/(protected)/holidays/_constants";
+import { Button } from "@/components/ui/button";
+import {
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { clinicHolidayTypeEnum } from "@/db/schema";
+
+const formSchema = z.object({
+  name: z.string().trim().min(1, { message: "Nome é obrigatório" }),
+  date: z.string().min(1, { message: "Data é obrigatória" }),
+  type: z.enum(clinicHolidayTypeEnum.enumValues, {
+    message: "Tipo é obrigatório",
+  }),
+  recurring: z.enum(["yes", "no"]),
+});
+
+interface AddClinicHolidayFormProps {
+  onSuccess?: () => void;
+}
+
+const AddClinicHolidayForm = ({ onSuccess }: AddClinicHolidayFormProps) => {
+  const form = useForm<z.infer<typeof formSchema>>({
+    shouldUnregister: true,
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: "",
+      date: "",
+      type: undefined,
+      recurring: "yes",
+    },
+  });
+  const addClinicHoliday = useAction(addClinicHolidayAction, {
+    onSuccess: () => {
+      toast.success("Feriado adicionado com sucesso!");
+      form.reset();
+      onSuccess?.();
+    },
+    onError: ({ error }) => {
+      const dateErrors = error.validationErrors?.date?._errors;
+
+      if (dateErrors?.length) {
+        form.setError("date", { message: dateErrors[0] });
+
+        return;
+      }
+
+      toast.error("Erro ao adicionar feriado.");
+    },
+  });
+
+  const onSubmit = (values: z.infer<typeof formSchema>) => {
+    addClinicHoliday.execute({
+      ...values,
+      recurring: values.recurring === "yes",
+    });
+  };
+
+  return (
+    <DialogContent className="sm:max-w-[425px]">
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
+          <DialogHeader>
+            <DialogTitle>Adicionar feriado</DialogTitle>
+            <DialogDescription>
+              Cadastre feriados estaduais, municipais ou dias em que a clínica
+              estará fechada.
+            </DialogDescription>
+          </DialogHeader>
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Nome</FormLabel>
+                <FormControl>
+                  <Input placeholder="Ex.: Aniversário da cidade" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="date"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Data</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="type"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Tipo</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Selecione o tipo" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {clinicHolidayTypeEnum.enumValues.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {holidayTypeLabels[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="recurring"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Repetição</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="yes">Todos os anos</SelectItem>
+                    <SelectItem value="no">Apenas nesta data</SelectItem>
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button variant="outline">Cancelar</Button>
+            </DialogClose>
+            <Button type="submit" disabled={addClinicHoliday.isPending}>
+              {addClinicHoliday.isPending ? "Salvando..." : "Adicionar"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </Form>
+    </DialogContent>
+  );
+};
+
+export default AddClinicHolidayForm;
@@ -0,0 +1,38 @@
+"use client";
+
+import { TrashIcon } from "lucide-react";
+import { useAction } from "next-safe-action/hooks";
+import { toast } from "sonner";
+
+import { deleteClinicHolidayAction } from "@/actions/delete-clinic-holiday";
+import { Button } from "@/components/ui/button";
+
+interface DeleteClinicHolidayButtonProps {
+  clinicHolidayId: string;
+}
+
+const DeleteClinicHolidayButton = ({
+  clinicHolidayId,
+}: DeleteClinicHolidayButtonProps) => {
+  const deleteClinicHoliday = useAction(deleteClinicHolidayAction, {
+    onSuccess: () => {
+      toast.success("Feriado removido com sucesso!");
+    },
+    onError: () => {
+      toast.error("Erro ao remover feriado.");
+    },
+  });
+
+  return (
+    <Button
+      variant="ghost"
+      size="icon"
+      disabled={deleteClinicHoliday.isPending}
+      onClick={() => deleteClinicHoliday.execute({ id: clinicHolidayId })}
+    >
+      <TrashIcon />
+    </Button>
+  );
+};
+
+export default DeleteClinicHolidayButton;
@@ -0,0 +1,59 @@
+"use client";
+
+import { useAction } from "next-safe-action/hooks";
+import { toast } from "sonner";
+
+import { updateClinicHolidaySettingsAction } from "@/actions/update-clinic-holiday-settings";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface HolidaySettingsFormProps {
+  openOnHolidays: boolean;
+  disabled?: boolean;
+}
+
+const HolidaySettingsForm = ({
+  openOnHolidays,
+  disabled,
+}: HolidaySettingsFormProps) => {
+  const updateClinicHolidaySettings = useAction(
+    updateClinicHolidaySettingsAction,
+    {
+      onSuccess: () => {
+        toast.success("Configuração de feriados atualizada!");
+      },
+      onError: () => {
+        toast.error("Erro ao atualizar configuração de feriados.");
+      },
+    },
+  );
+
+  return (
+    <Select
+      value={openOnHolidays ? "open" : "closed"}
+      disabled={disabled || updateClinicHolidaySettings.isPending}
+      onValueChange={(value) =>
+        updateClinicHolidaySettings.execute({
+          openOnHolidays: value === "open",
+        })
+      }
+    >
+      <SelectTrigger className="w-[320px]">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="closed">
+          Fechada nos feriados (bloqueia agendamentos)
+        </SelectItem>
+        <SelectItem value="open">Aberta nos feriados</SelectItem>
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default HolidaySettingsForm;
@@ -0,0 +1,8 @@
+import { HolidayType } from "@/helpers/holidays";
+
+export const holidayTypeLabels: Record<HolidayType, string> = {
+  national: "Nacional",
+  state: "Estadual",
+  municipal: "Municipal",
+  clinic: "Fechamento da clínica",
+};
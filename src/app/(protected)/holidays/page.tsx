@@ -0,0 +1,167 @@
+import "dayjs/locale/pt-br";
+
+import dayjs from "dayjs";
+import { eq } from "drizzle-orm";
+import { ChevronLeftIcon, ChevronRightIcon } from "lucide-react";
+import { headers } from "next/headers";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { z } from "zod";
+
+import AddClinicHolidayButton from "@/app/(protected)/holidays/_components/add-clinic-holiday-button";
+import DeleteClinicHolidayButton from "@/app/(protected)/holidays/_components/delete-clinic-holiday-button";
+import HolidaySettingsForm from "@/app/(protected)/holidays/_components/holiday-settings-form";
+import { holidayTypeLabels } from "@/app/(protected)/holidays/_constants";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  PageActions,
+  PageContainer,
+  PageContent,
+  PageDescription,
+  PageHeader,
+  PageHeaderContent,
+  PageTitle,
+} from "@/components/ui/page-container";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { db } from "@/db";
+import { clinicsTable } from "@/db/schema";
+import { getHolidaysForYear } from "@/helpers/holidays";
+import { auth } from "@/lib/auth";
+
+dayjs.locale("pt-br");
+
+const searchParamsSchema = z.object({
+  year: z.coerce
+    .number()
+    .int()
+    .min(1900)
+    .max(2200)
+    .catch(() => dayjs().year()),
+});
+
+interface HolidaysPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+const HolidaysPage = async ({ searchParams }: HolidaysPageProps) => {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session?.user) {
+    redirect("/authentication");
+  }
+
+  if (!session?.user.clinic) {
+    redirect("/clinic-form");
+  }
+
+  const { year } = searchParamsSchema.parse(await searchParams);
+
+  const clinic = await db.query.clinicsTable.findFirst({
+    where: eq(clinicsTable.id, session.user.clinic.id),
+    with: {
+      holidays: true,
+    },
+  });
+
+  if (!clinic) {
+    redirect("/clinic-form");
+  }
+
+  const isClinicOwner = session.user.clinic.role === "owner";
+  const holidays = getHolidaysForYear(year, clinic.holidays);
+
+  return (
+    <PageContainer>
+      <PageHeader>
+        <PageHeaderContent>
+          <PageTitle>Feriados</PageTitle>
+          <PageDescription>
+            Feriados nacionais e datas em que a clínica não atende
+          </PageDescription>
+        </PageHeaderContent>
+        <PageActions>
+          <Button variant="outline" size="icon" asChild>
+            <Link href={`/holidays?year=${year - 1}`}>
+              <ChevronLeftIcon />
+            </Link>
+          </Button>
+          <span className="text-sm font-medium">{year}</span>
+          <Button variant="outline" size="icon" asChild>
+            <Link href={`/holidays?year=${year + 1}`}>
+              <ChevronRightIcon />
+            </Link>
+          </Button>
+          {isClinicOwner && <AddClinicHolidayButton />}
+        </PageActions>
+      </PageHeader>
+      <PageContent>
+        <Card>
+          <CardHeader>
+            <CardTitle>Funcionamento em feriados</CardTitle>
+            <CardDescription>
+              Quando fechada, nenhum agendamento pode ser feito nas datas
+              abaixo.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <HolidaySettingsForm
+              openOnHolidays={clinic.openOnHolidays}
+              disabled={!isClinicOwner}
+            />
+          </CardContent>
+        </Card>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Data</TableHead>
+              <TableHead>Feriado</TableHead>
+              <TableHead>Tipo</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {holidays.map((holiday) => (
+              <TableRow key={`${holiday.date}-${holiday.name}`}>
+                <TableCell className="capitalize">
+                  {dayjs(holiday.date).format("ddd, DD/MM/YYYY")}
+                </TableCell>
+                <TableCell>{holiday.name}</TableCell>
+                <TableCell>
+                  <Badge variant="outline">
+                    {holidayTypeLabels[holiday.type]}
+                  </Badge>
+                </TableCell>
+                <TableCell className="text-right">
+                  {isClinicOwner && holiday.clinicHolidayId && (
+                    <DeleteClinicHolidayButton
+                      clinicHolidayId={holiday.clinicHolidayId}
+                    />
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </PageContent>
+    </PageContainer>
+  );
+};
+
+export default HolidaysPage;
@@ -0,0 +1,65 @@
+"use client";
+
+import { UserXIcon } from "lucide-react";
+import { useAction } from "next-safe-action/hooks";
+import { toast } from "sonner";
+
+import { anonymizePatientAction } from "@/actions/anonymize-patient";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+
+interface AnonymizePatientButtonProps {
+  patientId: string;
+}
+
+const AnonymizePatientButton = ({ patientId }: AnonymizePatientButtonProps) => {
+  const anonymizePatient = useAction(anonymizePatientAction, {
+    onSuccess: () => {
+      toast.success("Dados do paciente anonimizados com sucesso!");
+    },
+    onError: () => {
+      toast.error("Erro ao anonimizar paciente.");
+    },
+  });
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button variant="destructive" disabled={anonymizePatient.isPending}>
+          <UserXIcon />
+          Anonimizar
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Anonimizar dados do paciente?</AlertDialogTitle>
+          <AlertDialogDescription>
+            Nome, contatos, CPF, data de nascimento e dados do responsável serão
+            apagados. Agendamentos e prontuários são mantidos pelo prazo legal
+            de guarda. Esta ação não pode ser desfeita.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancelar</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={() => anonymizePatient.execute({ id: patientId })}
+          >
+            Anonimizar
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default AnonymizePatientButton;
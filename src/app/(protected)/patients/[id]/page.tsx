@@ -0,0 +1,311 @@
+import dayjs from "dayjs";
+import { asc, desc, eq } from "drizzle-orm";
+import { ArrowLeftIcon, DownloadIcon } from "lucide-react";
+import { headers } from "next/headers";
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+import { z } from "zod";
+
+import AddAppointmentButton from "@/app/(protected)/appointments/_components/add-appointment-button";
+import AppointmentsTable from "@/app/(protected)/appointments/_components/appointments-table";
+import {
+  patientDataRequestTypeLabels,
+  patientSexLabels,
+} from "@/app/(protected)/patients/_constants";
+import {
+  formatPatientAge,
+  isMinorPatient,
+} from "@/app/(protected)/patients/_helpers/age";
+import AnonymizePatientButton from "@/app/(protected)/patients/[id]/_components/anonymize-patient-button";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  PageActions,
+  PageContainer,
+  PageContent,
+  PageDescription,
+  PageHeader,
+  PageHeaderContent,
+  PageTitle,
+} from "@/components/ui/page-container";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { db } from "@/db";
+import {
+  appointmentReschedulesTable,
+  appointmentsTable,
+  doctorsTable,
+  patientDataRequestsTable,
+  patientsTable,
+} from "@/db/schema";
+import { formatCpf } from "@/helpers/cpf";
+import { formatCurrencyInCents } from "@/helpers/currency";
+import { formatPhoneNumber } from "@/helpers/phone-number";
+import { getClinicDate, toClinicTime } from "@/helpers/time-zone";
+import { auth } from "@/lib/auth";
+
+interface PatientPageProps {
+  params: Promise<{ id: string }>;
+}
+
+const PatientPage = async ({ params }: PatientPageProps) => {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session?.user) {
+    redirect("/authentication");
+  }
+
+  if (!session?.user.clinic) {
+    redirect("/clinic-form");
+  }
+
+  const { id } = await params;
+
+  if (!z.string().uuid().safeParse(id).success) {
+    notFound();
+  }
+
+  const [patient, doctors] = await Promise.all([
+    db.query.patientsTable.findFirst({
+      where: eq(patientsTable.id, id),
+      with: {
+        appointments: {
+          with: {
+            patient: true,
+            doctor: true,
+            reschedules: {
+              with: {
+                rescheduledBy: {
+                  columns: {
+                    name: true,
+                  },
+                },
+              },
+              orderBy: [desc(appointmentReschedulesTable.createdAt)],
+            },
+          },
+          orderBy: [asc(appointmentsTable.date)],
+        },
+        dataRequests: {
+          with: {
+            requestedBy: {
+              columns: {
+                name: true,
+              },
+            },
+          },
+          orderBy: [desc(patientDataRequestsTable.createdAt)],
+        },
+      },
+    }),
+    db.query.doctorsTable.findMany({
+      where: eq(doctorsTable.clinicId, session.user.clinic.id),
+      orderBy: [asc(doctorsTable.name)],
+    }),
+  ]);
+
+  if (!patient || patient.clinicId !== session.user.clinic.id) {
+    notFound();
+  }
+
+  const isClinicOwner = session.user.clinic.role === "owner";
+  const timeZone = session.user.clinic.timeZone;
+  const now = new Date();
+  const upcomingAppointments = patient.appointments.filter(
+    (appointment) => appointment.date >= now,
+  );
+  const pastAppointments = patient.appointments
+    .filter((appointment) => appointment.date < now)
+    .reverse();
+  // Only completed visits count as paid; cancelled and missed ones are not
+  // charged.
+  const totalPaidInCents = patient.appointments
+    .filter((appointment) => appointment.status === "completed")
+    .reduce(
+      (total, appointment) => total + appointment.appointmentPriceInCents,
+      0,
+    );
+  const noShowCount = patient.appointments.filter(
+    (appointment) => appointment.status === "no_show",
+  ).length;
+
+  const demographics = [
+    { label: "E-mail", value: patient.email ?? "-" },
+    {
+      label: "Telefone",
+      value: patient.phoneNumber ? formatPhoneNumber(patient.phoneNumber) : "-",
+    },
+    { label: "CPF", value: patient.cpf ? formatCpf(patient.cpf) : "-" },
+    {
+      label: "Nascimento",
+      value: patient.birthDate
+        ? `${dayjs(patient.birthDate).format("DD/MM/YYYY")} (${formatPatientAge(patient.birthDate, getClinicDate(now, timeZone))})`
+        : "-",
+    },
+    { label: "Sexo", value: patientSexLabels[patient.sex] },
+    {
+      label: "Paciente desde",
+      value: toClinicTime(patient.createdAt, timeZone).format("DD/MM/YYYY"),
+    },
+    ...(isMinorPatient(patient) && patient.guardianName
+      ? [
+          { label: "Responsável legal", value: patient.guardianName },
+          {
+            label: "CPF do responsável",
+            value: patient.guardianCpf ? formatCpf(patient.guardianCpf) : "-",
+          },
+          {
+            label: "Telefone do responsável",
+            value: patient.guardianPhoneNumber
+              ? formatPhoneNumber(patient.guardianPhoneNumber)
+              : "-",
+          },
+        ]
+      : []),
+  ];
+  const stats = [
+    { label: "Consultas", value: patient.appointments.length.toString() },
+    { label: "Total pago", value: formatCurrencyInCents(totalPaidInCents) },
+    { label: "Faltas", value: noShowCount.toString() },
+  ];
+
+  return (
+    <PageContainer>
+      <PageHeader>
+        <PageHeaderContent>
+          <PageTitle>{patient.name}</PageTitle>
+          <PageDescription>
+            {patient.anonymizedAt
+              ? `Dados pessoais anonimizados em ${toClinicTime(patient.anonymizedAt, timeZone).format("DD/MM/YYYY")}`
+              : "Histórico e dados do paciente"}
+          </PageDescription>
+        </PageHeaderContent>
+        <PageActions>
+          <Button variant="outline" asChild>
+            <Link href="/patients">
+              <ArrowLeftIcon />
+              Voltar
+            </Link>
+          </Button>
+          {isClinicOwner && (
+            <Button variant="outline" asChild>
+              <a href={`/api/patients/${patient.id}/data-export`} download>
+                <DownloadIcon />
+                Exportar dados
+              </a>
+            </Button>
+          )}
+          {isClinicOwner && !patient.anonymizedAt && (
+            <AnonymizePatientButton patientId={patient.id} />
+          )}
+          {!patient.anonymizedAt && (
+            <AddAppointmentButton
+              defaultPatientId={patient.id}
+              doctors={doctors}
+              patients={[patient]}
+              timeZone={timeZone}
+            />
+          )}
+        </PageActions>
+      </PageHeader>
+      <PageContent>
+        <div className="grid gap-4 md:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>Dados do paciente</CardTitle>
+              <CardDescription>Informações de cadastro</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <dl className="grid grid-cols-2 gap-4 text-sm">
+                {demographics.map(({ label, value }) => (
+                  <div key={label}>
+                    <dt className="text-muted-foreground text-xs">{label}</dt>
+                    <dd>{value}</dd>
+                  </div>
+                ))}
+              </dl>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle>Resumo</CardTitle>
+              <CardDescription>Considera todos os agendamentos</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <dl className="grid grid-cols-3 gap-4">
+                {stats.map(({ label, value }) => (
+                  <div key={label}>
+                    <dt className="text-muted-foreground text-xs">{label}</dt>
+                    <dd className="text-2xl font-semibold">{value}</dd>
+                  </div>
+                ))}
+              </dl>
+            </CardContent>
+          </Card>
+        </div>
+        <Tabs defaultValue="upcoming">
+          <TabsList>
+            <TabsTrigger value="upcoming">
+              Próximos ({upcomingAppointments.length})
+            </TabsTrigger>
+            <TabsTrigger value="past">
+              Anteriores ({pastAppointments.length})
+            </TabsTrigger>
+          </TabsList>
+          <TabsContent value="upcoming">
+            <AppointmentsTable
+              appointments={upcomingAppointments}
+              emptyMessage="Nenhum agendamento futuro para este paciente."
+              timeZone={timeZone}
+            />
+          </TabsContent>
+          <TabsContent value="past">
+            <AppointmentsTable
+              appointments={pastAppointments}
+              emptyMessage="Nenhum agendamento anterior para este paciente."
+              timeZone={timeZone}
+            />
+          </TabsContent>
+        </Tabs>
+        {isClinicOwner && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Solicitações LGPD</CardTitle>
+              <CardDescription>
+                Registro de exportações e anonimizações dos dados do paciente
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {patient.dataRequests.length > 0 ? (
+                <ul className="space-y-2 text-sm">
+                  {patient.dataRequests.map((dataRequest) => (
+                    <li key={dataRequest.id}>
+                      {patientDataRequestTypeLabels[dataRequest.type]} por{" "}
+                      {dataRequest.requestedBy?.name ?? "usuário removido"} em{" "}
+                      {toClinicTime(dataRequest.createdAt, timeZone).format(
+                        "DD/MM/YYYY [às] HH:mm",
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-muted-foreground text-sm">
+                  Nenhuma solicitação registrada.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </PageContent>
+    </PageContainer>
+  );
+};
+
+export default PatientPage;
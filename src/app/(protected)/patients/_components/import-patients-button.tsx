@@ -0,0 +1,26 @@
+"use client";
+
+import { UploadIcon } from "lucide-react";
+import { useState } from "react";
+
+import ImportPatientsForm from "@/app/(protected)/patients/_components/import-patients-form";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogTrigger } from "@/components/ui/dialog";
+
+const ImportPatientsButton = () => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <UploadIcon />
+          Importar CSV
+        </Button>
+      </DialogTrigger>
+      {isOpen && <ImportPatientsForm onSuccess={() => setIsOpen(false)} />}
+    </Dialog>
+  );
+};
+
+export default ImportPatientsButton;
@@ -0,0 +1,279 @@
+import { useAction } from "next-safe-action/hooks";
+import { useState } from "react";
+import { toast } from "sonner";
+
+import { importPatientsAction } from "@/actions/import-patients";
+import {
+  MAX_PATIENT_IMPORT_ROWS,
+  PatientImportField,
+  patientImportFields,
+} from "@/app/(protected)/patients/_constants";
+import { guessPatientImportColumns } from "@/app/(protected)/patients/_helpers/import";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { parseCsv } from "@/helpers/csv";
+
+const NOT_MAPPED = -1;
+
+const requiredFields: PatientImportField[] = [
+  "name",
+  "email",
+  "phoneNumber",
+  "sex",
+];
+
+const rowStatusLabels = {
+  new: "Novo",
+  duplicate: "Já cadastrado",
+  invalid: "Com erros",
+};
+
+type DuplicateStrategy = "skip" | "merge";
+
+interface ImportPatientsFormProps {
+  onSuccess?: () => void;
+}
+
+const ImportPatientsForm = ({ onSuccess }: ImportPatientsFormProps) => {
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [columns, setColumns] = useState<Record<PatientImportField, number>>();
+  const [duplicateStrategy, setDuplicateStrategy] =
+    useState<DuplicateStrategy>("skip");
+  const importPatients = useAction(importPatientsAction, {
+    onSuccess: ({ data, input }) => {
+      if (!data || input.dryRun) return;
+
+      toast.success(
+        `${data.importedCount} pacientes importados e ${data.mergedCount} atualizados!`,
+      );
+      onSuccess?.();
+    },
+    onError: () => {
+      toast.error("Erro ao importar pacientes.");
+    },
+  });
+  const preview = importPatients.result.data;
+  const missingFields = requiredFields.filter(
+    (field) => !columns || columns[field] === NOT_MAPPED,
+  );
+  const hasTooManyRows = dataRows.length > MAX_PATIENT_IMPORT_ROWS;
+
+  const handleFileChange = async (file: File | undefined) => {
+    importPatients.reset();
+
+    if (!file) return;
+
+    const [headerRow = [], ...rows] = parseCsv(await file.text());
+
+    setHeaders(headerRow);
+    setDataRows(rows);
+    setColumns(guessPatientImportColumns(headerRow));
+  };
+
+  const handleColumnChange = (field: PatientImportField, column: string) => {
+    importPatients.reset();
+    setColumns((columns) => columns && { ...columns, [field]: Number(column) });
+  };
+
+  const execute = (dryRun: boolean) => {
+    if (!columns) return;
+
+    importPatients.execute({
+      rows: dataRows.map(
+        (row) =>
+          Object.fromEntries(
+            patientImportFields.map(({ key }) => [
+              key,
+              columns[key] === NOT_MAPPED ? "" : (row[columns[key]] ?? ""),
+            ]),
+          ) as Record<PatientImportField, string>,
+      ),
+      duplicateStrategy,
+      dryRun,
+    });
+  };
+
+  return (
+    <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[700px]">
+      <DialogHeader>
+        <DialogTitle>Importar pacientes</DialogTitle>
+        <DialogDescription>
+          Envie um arquivo CSV com até {MAX_PATIENT_IMPORT_ROWS} pacientes. A
+          primeira linha deve conter os nomes das colunas.
+        </DialogDescription>
+      </DialogHeader>
+      <div className="space-y-2">
+        <Label htmlFor="patients-csv">Arquivo CSV</Label>
+        <Input
+          id="patients-csv"
+          type="file"
+          accept=".csv,text/csv"
+          onChange={(event) => handleFileChange(event.target.files?.[0])}
+        />
+      </div>
+      {columns && (
+        <>
+          <div className="grid grid-cols-2 gap-4">
+            {patientImportFields.map(({ key, label }) => (
+              <div key={key} className="space-y-2">
+                <Label>
+                  {label}
+                  {!requiredFields.includes(key) && " (opcional)"}
+                </Label>
+                <Select
+                  value={columns[key].toString()}
+                  onValueChange={(column) => handleColumnChange(key, column)}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NOT_MAPPED.toString()}>
+                      Não importar
+                    </SelectItem>
+                    {headers.map((header, index) => (
+                      <SelectItem key={index} value={index.toString()}>
+                        {header || `Coluna ${index + 1}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+            <div className="space-y-2">
+              <Label>Pacientes já cadastrados</Label>
+              <Select
+                value={duplicateStrategy}
+                onValueChange={(value) => {
+                  importPatients.reset();
+                  setDuplicateStrategy(value as DuplicateStrategy);
+                }}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="skip">Ignorar</SelectItem>
+                  <SelectItem value="merge">Atualizar cadastro</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {hasTooManyRows && (
+            <p className="text-destructive text-sm">
+              O arquivo possui {dataRows.length} linhas. Importe no máximo{" "}
+              {MAX_PATIENT_IMPORT_ROWS} pacientes por vez.
+            </p>
+          )}
+          {missingFields.length > 0 && (
+            <p className="text-destructive text-sm">
+              Selecione a coluna de:{" "}
+              {patientImportFields
+                .filter(({ key }) => missingFields.includes(key))
+                .map(({ label }) => label)
+                .join(", ")}
+              .
+            </p>
+          )}
+        </>
+      )}
+      {preview && (
+        <div className="space-y-2">
+          <p className="text-sm">
+            {preview.importedCount} novos, {preview.mergedCount} a atualizar e{" "}
+            {preview.skippedCount} ignorados.
+          </p>
+          <div className="max-h-[300px] overflow-y-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Linha</TableHead>
+                  <TableHead>Nome</TableHead>
+                  <TableHead>Situação</TableHead>
+                  <TableHead>Erros</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.rows.map((row) => (
+                  <TableRow key={row.rowNumber}>
+                    <TableCell>{row.rowNumber}</TableCell>
+                    <TableCell>{row.name}</TableCell>
+                    <TableCell>
+                      <Badge
+                        variant={
+                          row.status === "invalid" ? "destructive" : "outline"
+                        }
+                      >
+                        {rowStatusLabels[row.status]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-destructive text-xs whitespace-normal">
+                      {row.errors.join("; ")}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+      <DialogFooter>
+        <DialogClose asChild>
+          <Button variant="outline">Cancelar</Button>
+        </DialogClose>
+        {preview ? (
+          <Button
+            disabled={
+              importPatients.isPending ||
+              preview.importedCount + preview.mergedCount === 0
+            }
+            onClick={() => execute(false)}
+          >
+            {importPatients.isPending ? "Importando..." : "Importar"}
+          </Button>
+        ) : (
+          <Button
+            disabled={
+              !columns ||
+              dataRows.length === 0 ||
+              hasTooManyRows ||
+              missingFields.length > 0 ||
+              importPatients.isPending
+            }
+            onClick={() => execute(true)}
+          >
+            {importPatients.isPending ? "Validando..." : "Validar arquivo"}
+          </Button>
+        )}
+      </DialogFooter>
+    </DialogContent>
+  );
+};
+
+export default ImportPatientsForm;
@@ -0,0 +1,35 @@
+import { PencilIcon } from "lucide-react";
+import { useState } from "react";
+
+import UpsertPatientForm from "@/app/(protected)/patients/_components/upsert-patient-form";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogTrigger } from "@/components/ui/dialog";
+import { patientsTable } from "@/db/schema";
+
+interface PatientTableActionsProps {
+  patient: typeof patientsTable.$inferSelect;
+}
+
+const PatientTableActions = ({ patient }: PatientTableActionsProps) => {
+  const [isUpsertPatientDialogOpen, setIsUpsertPatientDialogOpen] =
+    useState(false);
+
+  return (
+    <Dialog
+      open={isUpsertPatientDialogOpen}
+      onOpenChange={setIsUpsertPatientDialogOpen}
+    >
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon">
+          <PencilIcon />
+        </Button>
+      </DialogTrigger>
+      <UpsertPatientForm
+        patient={patient}
+        onSuccess={() => setIsUpsertPatientDialogOpen(false)}
+      />
+    </Dialog>
+  );
+};
+
+export default PatientTableActions;
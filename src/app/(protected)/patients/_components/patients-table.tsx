@@ -0,0 +1,114 @@
+"use client";
+
+import { SearchIcon } from "lucide-react";
+import Link from "next/link";
+import { useState } from "react";
+
+import PatientTableActions from "@/app/(protected)/patients/_components/patient-table-actions";
+import { patientSexLabels } from "@/app/(protected)/patients/_constants";
+import { formatPatientAge } from "@/app/(protected)/patients/_helpers/age";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { patientsTable } from "@/db/schema";
+import { formatCpf } from "@/helpers/cpf";
+import { formatPhoneNumber } from "@/helpers/phone-number";
+
+interface PatientsTableProps {
+  patients: (typeof patientsTable.$inferSelect)[];
+}
+
+const PatientsTable = ({ patients }: PatientsTableProps) => {
+  const [search, setSearch] = useState("");
+  const normalizedSearch = search.trim().toLowerCase();
+  // CPFs and phone numbers are stored without the mask, so digits are
+  // compared on their own and "123.456" matches as well as "123456".
+  const digitsSearch = search.replace(/\D/g, "");
+  const filteredPatients = patients.filter(
+    (patient) =>
+      [patient.name, patient.email].some((value) =>
+        value?.toLowerCase().includes(normalizedSearch),
+      ) ||
+      (digitsSearch.length > 0 &&
+        [patient.phoneNumber, patient.cpf].some((value) =>
+          value?.includes(digitsSearch),
+        )),
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="relative max-w-sm">
+        <SearchIcon className="text-muted-foreground absolute top-1/2 left-3 size-4 -translate-y-1/2" />
+        <Input
+          placeholder="Buscar por nome, e-mail, telefone ou CPF"
+          className="pl-9"
+          value={search}
+          onChange={(event) => setSearch(event.target.value)}
+        />
+      </div>
+      {filteredPatients.length > 0 ? (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Nome</TableHead>
+              <TableHead>E-mail</TableHead>
+              <TableHead>Telefone</TableHead>
+              <TableHead>CPF</TableHead>
+              <TableHead>Idade</TableHead>
+              <TableHead>Sexo</TableHead>
+              <TableHead className="w-0" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {filteredPatients.map((patient) => (
+              <TableRow key={patient.id}>
+                <TableCell>
+                  <Link
+                    href={`/patients/${patient.id}`}
+                    className="font-medium hover:underline"
+                  >
+                    {patient.name}
+                  </Link>
+                </TableCell>
+                <TableCell>{patient.email ?? "-"}</TableCell>
+                <TableCell>
+                  {patient.phoneNumber
+                    ? formatPhoneNumber(patient.phoneNumber)
+                    : "-"}
+                </TableCell>
+                <TableCell>
+                  {patient.cpf ? formatCpf(patient.cpf) : "-"}
+                </TableCell>
+                <TableCell>
+                  {patient.birthDate
+                    ? formatPatientAge(patient.birthDate)
+                    : "-"}
+                </TableCell>
+                <TableCell>{patientSexLabels[patient.sex]}</TableCell>
+                <TableCell>
+                  {!patient.anonymizedAt && (
+                    <PatientTableActions patient={patient} />
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      ) : (
+        <div className="text-muted-foreground py-6 text-center">
+          {patients.length > 0
+            ? "Nenhum paciente encontrado."
+            : "Nenhum paciente cadastrado. Adicione um paciente para começar."}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PatientsTable;
@@ -0,0 +1,435 @@
+import { zodResolver } from "@hookform/resolvers/zod";
+import dayjs from "dayjs";
+import { TrashIcon } from "lucide-react";
+import { useAction } from "next-safe-action/hooks";
+import { useForm } from "react-hook-form";
+import { NumberFormatBase, PatternFormat } from "react-number-format";
+import { toast } from "sonner";
+import { z } from "zod";
+
+import { deletePatientAction } from "@/actions/delete-patient";
+import { upsertPatientAction } from "@/actions/upsert-patient";
+import { patientSexLabels } from "@/app/(protected)/patients/_constants";
+import { isMinorPatient } from "@/app/(protected)/patients/_helpers/age";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import {
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { patientSexEnum, patientsTable } from "@/db/schema";
+import { isValidCpf } from "@/helpers/cpf";
+import {
+  formatPhoneNumber,
+  getNationalPhoneNumber,
+  isValidPhoneNumber,
+} from "@/helpers/phone-number";
+
+const formSchema = z
+  .object({
+    name: z.string().trim().min(1, { message: "Nome é obrigatório" }),
+    email: z.string().trim().email({ message: "E-mail inválido" }),
+    phoneNumber: z
+      .string()
+      .trim()
+      .min(1, { message: "Número de telefone é obrigatório" })
+      .refine(isValidPhoneNumber, { message: "Número de telefone inválido" }),
+    cpf: z
+      .string()
+      .trim()
+      .refine((cpf) => !cpf || isValidCpf(cpf), { message: "CPF inválido" }),
+    birthDate: z.string(),
+    guardianName: z.string().trim().optional(),
+    guardianCpf: z.string().optional(),
+    guardianPhoneNumber: z.string().optional(),
+    sex: z.enum(patientSexEnum.enumValues, { message: "Sexo é obrigatório" }),
+  })
+  .superRefine((data, ctx) => {
+    if (!isMinorPatient({ birthDate: data.birthDate || null })) {
+      return;
+    }
+
+    if (!data.guardianName) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Nome do responsável é obrigatório",
+        path: ["guardianName"],
+      });
+    }
+
+    if (!data.guardianCpf || !isValidCpf(data.guardianCpf)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "CPF do responsável inválido",
+        path: ["guardianCpf"],
+      });
+    }
+
+    if (
+      !data.guardianPhoneNumber ||
+      !isValidPhoneNumber(data.guardianPhoneNumber)
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Telefone do responsável inválido",
+        path: ["guardianPhoneNumber"],
+      });
+    }
+  });
+
+interface UpsertPatientFormProps {
+  patient?: typeof patientsTable.$inferSelect;
+  onSuccess?: () => void;
+}
+
+const UpsertPatientForm = ({ patient, onSuccess }: UpsertPatientFormProps) => {
+  const form = useForm<z.infer<typeof formSchema>>({
+    shouldUnregister: true,
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: patient?.name ?? "",
+      email: patient?.email ?? "",
+      phoneNumber: patient?.phoneNumber
+        ? getNationalPhoneNumber(patient.phoneNumber)
+        : "",
+      cpf: patient?.cpf ?? "",
+      birthDate: patient?.birthDate ?? "",
+      guardianName: patient?.guardianName ?? "",
+      guardianCpf: patient?.guardianCpf ?? "",
+      guardianPhoneNumber: patient?.guardianPhoneNumber
+        ? getNationalPhoneNumber(patient.guardianPhoneNumber)
+        : "",
+      sex: patient?.sex,
+    },
+  });
+  const birthDate = form.watch("birthDate");
+  const isMinor = isMinorPatient({ birthDate: birthDate || null });
+  const upsertPatient = useAction(upsertPatientAction, {
+    onSuccess: () => {
+      toast.success(
+        patient
+          ? "Paciente atualizado com sucesso!"
+          : "Paciente adicionado com sucesso!",
+      );
+      form.reset();
+      onSuccess?.();
+    },
+    onError: ({ error }) => {
+      const fields = [
+        "email",
+        "phoneNumber",
+        "cpf",
+        "birthDate",
+        "guardianName",
+        "guardianCpf",
+        "guardianPhoneNumber",
+      ] as const;
+      let hasFieldErrors = false;
+
+      for (const field of fields) {
+        const fieldErrors = error.validationErrors?.[field]?._errors;
+
+        if (fieldErrors?.length) {
+          form.setError(field, { message: fieldErrors[0] });
+          hasFieldErrors = true;
+        }
+      }
+
+      if (hasFieldErrors) {
+        return;
+      }
+
+      toast.error("Erro ao salvar paciente.");
+    },
+  });
+  const deletePatient = useAction(deletePatientAction, {
+    onSuccess: () => {
+      toast.success("Paciente excluído com sucesso!");
+      onSuccess?.();
+    },
+    onError: ({ error }) => {
+      toast.error(
+        error.validationErrors?._errors?.[0] ?? "Erro ao excluir paciente.",
+      );
+    },
+  });
+
+  const handleDeletePatientClick = () => {
+    if (!patient?.id) return;
+    deletePatient.execute({ id: patient.id });
+  };
+
+  const onSubmit = (values: z.infer<typeof formSchema>) => {
+    upsertPatient.execute({
+      ...values,
+      id: patient?.id,
+    });
+  };
+
+  return (
+    <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[425px]">
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
+          <DialogHeader>
+            <DialogTitle>
+              {patient ? patient.name : "Adicionar paciente"}
+            </DialogTitle>
+            <DialogDescription>
+              {patient
+                ? "Edite as informações do paciente."
+                : "Preencha os dados do novo paciente."}
+            </DialogDescription>
+          </DialogHeader>
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Nome</FormLabel>
+                <FormControl>
+                  <Input placeholder="Nome do paciente" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="email"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>E-mail</FormLabel>
+                <FormControl>
+                  <Input
+                    type="email"
+                    placeholder="paciente@email.com"
+                    {...field}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="phoneNumber"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Telefone</FormLabel>
+                <FormControl>
+                  <NumberFormatBase
+                    type="tel"
+                    format={formatPhoneNumber}
+                    placeholder="(11) 99999-9999"
+                    valueIsNumericString
+                    value={field.value}
+                    onValueChange={(value) => field.onChange(value.value)}
+                    customInput={Input}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="cpf"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>CPF</FormLabel>
+                <FormControl>
+                  <PatternFormat
+                    format="###.###.###-##"
+                    mask="_"
+                    placeholder="000.000.000-00"
+                    value={field.value}
+                    onValueChange={(value) => field.onChange(value.value)}
+                    customInput={Input}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="birthDate"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Data de nascimento</FormLabel>
+                <FormControl>
+                  <Input
+                    type="date"
+                    max={dayjs().format("YYYY-MM-DD")}
+                    {...field}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {isMinor && (
+            <div className="space-y-4 rounded-md border p-4">
+              <p className="text-sm font-medium">
+                Responsável legal (paciente menor de idade)
+              </p>
+              <FormField
+                control={form.control}
+                name="guardianName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Nome do responsável</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Nome do responsável" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="guardianCpf"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>CPF do responsável</FormLabel>
+                    <FormControl>
+                      <PatternFormat
+                        format="###.###.###-##"
+                        mask="_"
+                        placeholder="000.000.000-00"
+                        value={field.value}
+                        onValueChange={(value) => field.onChange(value.value)}
+                        customInput={Input}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="guardianPhoneNumber"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Telefone do responsável</FormLabel>
+                    <FormControl>
+                      <NumberFormatBase
+                        type="tel"
+                        format={formatPhoneNumber}
+                        placeholder="(11) 99999-9999"
+                        valueIsNumericString
+                        value={field.value}
+                        onValueChange={(value) => field.onChange(value.value)}
+                        customInput={Input}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+          )}
+          <FormField
+            control={form.control}
+            name="sex"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Sexo</FormLabel>
+                <Select
+                  onValueChange={field.onChange}
+                  defaultValue={field.value}
+                >
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Selecione o sexo" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {patientSexEnum.enumValues.map((sex) => (
+                      <SelectItem key={sex} value={sex}>
+                        {patientSexLabels[sex]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button variant="outline">Cancelar</Button>
+            </DialogClose>
+            {patient && (
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="destructive">
+                    <TrashIcon />
+                    Excluir paciente
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>
+                      Tem certeza que deseja excluir este paciente?
+                    </AlertDialogTitle>
+                    <AlertDialogDescription>
+                      Esta ação não pode ser desfeita. Apenas pacientes sem
+                      agendamentos podem ser excluídos; para os demais, use a
+                      anonimização na página do paciente.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                    <AlertDialogAction onClick={handleDeletePatientClick}>
+                      Continuar
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            )}
+            <Button type="submit" disabled={upsertPatient.isPending}>
+              {upsertPatient.isPending
+                ? "Salvando..."
+                : patient
+                  ? "Salvar"
+                  : "Adicionar"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </Form>
+    </DialogContent>
+  );
+};
+
+export default UpsertPatientForm;
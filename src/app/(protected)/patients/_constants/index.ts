@@ -0,0 +1,57 @@
+import { patientDataRequestTypeEnum, patientSexEnum } from "@/db/schema";
+
+export type PatientSex = (typeof patientSexEnum.enumValues)[number];
+
+export const patientSexLabels: Record<PatientSex, string> = {
+  male: "Masculino",
+  female: "Feminino",
+};
+
+export const patientImportFields = [
+  { key: "name", label: "Nome", aliases: ["nome", "name", "paciente"] },
+  { key: "email", label: "E-mail", aliases: ["email", "e-mail"] },
+  {
+    key: "phoneNumber",
+    label: "Telefone",
+    aliases: ["telefone", "celular", "phone", "fone", "whatsapp"],
+  },
+  { key: "cpf", label: "CPF", aliases: ["cpf"] },
+  { key: "sex", label: "Sexo", aliases: ["sexo", "sex", "genero", "gênero"] },
+  {
+    key: "birthDate",
+    label: "Data de nascimento",
+    aliases: ["data de nascimento", "nascimento", "birth date", "birthdate"],
+  },
+  {
+    key: "guardianName",
+    label: "Nome do responsável",
+    aliases: ["nome do responsável", "responsável", "responsavel"],
+  },
+  {
+    key: "guardianCpf",
+    label: "CPF do responsável",
+    aliases: ["cpf do responsável", "cpf do responsavel"],
+  },
+  {
+    key: "guardianPhoneNumber",
+    label: "Telefone do responsável",
+    aliases: ["telefone do responsável", "telefone do responsavel"],
+  },
+] as const;
+
+export type PatientImportField = (typeof patientImportFields)[number]["key"];
+
+export const MAX_PATIENT_IMPORT_ROWS = 1000;
+
+export const ANONYMIZED_PATIENT_NAME = "Paciente anonimizado";
+
+export type PatientDataRequestType =
+  (typeof patientDataRequestTypeEnum.enumValues)[number];
+
+export const patientDataRequestTypeLabels: Record<
+  PatientDataRequestType,
+  string
+> = {
+  export: "Exportação de dados",
+  anonymization: "Anonimização",
+};
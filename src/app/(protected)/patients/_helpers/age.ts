@@ -0,0 +1,28 @@
+import dayjs from "dayjs";
+
+export const ADULT_AGE = 18;
+
+// `today` is a "YYYY-MM-DD" day; pages pass the clinic's day so the age does
+// not depend on the server's time zone.
+export const getPatientAge = (
+  birthDate: string,
+  today = dayjs().format("YYYY-MM-DD"),
+) => dayjs(today).diff(dayjs(birthDate), "year");
+
+export const isMinorPatient = (patient: { birthDate: string | null }) =>
+  !!patient.birthDate && getPatientAge(patient.birthDate) < ADULT_AGE;
+
+export const formatPatientAge = (
+  birthDate: string,
+  today = dayjs().format("YYYY-MM-DD"),
+) => {
+  const age = getPatientAge(birthDate, today);
+
+  if (age < 1) {
+    const months = dayjs(today).diff(dayjs(birthDate), "month");
+
+    return months === 1 ? "1 mês" : `${months} meses`;
+  }
+
+  return age === 1 ? "1 ano" : `${age} anos`;
+};
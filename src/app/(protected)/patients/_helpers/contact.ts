@@ -0,0 +1,25 @@
+import { isMinorPatient } from "@/app/(protected)/patients/_helpers/age";
+import { patientsTable } from "@/db/schema";
+
+// Reminders and receipts for minors go to their legal guardian.
+export const getPatientContact = (
+  patient: typeof patientsTable.$inferSelect,
+) => {
+  if (isMinorPatient(patient) && patient.guardianName) {
+    return {
+      name: patient.guardianName,
+      cpf: patient.guardianCpf,
+      phoneNumber: patient.guardianPhoneNumber ?? patient.phoneNumber,
+      email: patient.email,
+      isGuardian: true,
+    };
+  }
+
+  return {
+    name: patient.name,
+    cpf: patient.cpf,
+    phoneNumber: patient.phoneNumber,
+    email: patient.email,
+    isGuardian: false,
+  };
+};
@@ -0,0 +1,77 @@
+import { patientsTable } from "@/db/schema";
+import { normalizeCpf } from "@/helpers/cpf";
+import { normalizePhoneNumber } from "@/helpers/phone-number";
+
+type Patient = typeof patientsTable.$inferSelect;
+
+export type DuplicateMatchField = "name" | "email" | "phoneNumber" | "cpf";
+
+export const normalizePatientName = (name: string) =>
+  name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+export const normalizePatientEmail = (email: string) =>
+  email.trim().toLowerCase();
+
+const normalizers: Record<DuplicateMatchField, (value: string) => string> = {
+  name: normalizePatientName,
+  email: normalizePatientEmail,
+  phoneNumber: normalizePhoneNumber,
+  cpf: normalizeCpf,
+};
+
+export const findDuplicatePatients = <T extends Patient>(patients: T[]) => {
+  const matchesByPair = new Map<
+    string,
+    { patients: [T, T]; matchedFields: DuplicateMatchField[] }
+  >();
+
+  for (const field of Object.keys(normalizers) as DuplicateMatchField[]) {
+    const patientsByValue = new Map<string, T[]>();
+
+    for (const patient of patients) {
+      const rawValue = patient[field]?.trim();
+
+      // Normalizing an empty value can still produce something (a phone
+      // number gets its country code), which would match every patient
+      // missing that field.
+      if (!rawValue) continue;
+
+      const value = normalizers[field](rawValue);
+
+      if (!value) continue;
+
+      patientsByValue.set(value, [
+        ...(patientsByValue.get(value) ?? []),
+        patient,
+      ]);
+    }
+
+    for (const group of patientsByValue.values()) {
+      for (let i = 0; i < group.length; i++) {
+        for (let j = i + 1; j < group.length; j++) {
+          const [first, second] = [group[i], group[j]].sort(
+            (a, b) => a.createdAt.getTime() - b.createdAt.getTime(),
+          );
+          const key = `${first.id}:${second.id}`;
+          const match = matchesByPair.get(key) ?? {
+            patients: [first, second],
+            matchedFields: [],
+          };
+
+          match.matchedFields.push(field);
+          matchesByPair.set(key, match);
+        }
+      }
+    }
+  }
+
+  return [...matchesByPair.values()].sort(
+    (a, b) => b.matchedFields.length - a.matchedFields.length,
+  );
+};
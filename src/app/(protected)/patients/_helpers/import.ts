@@ -0,0 +1,46 @@
+import {
+  PatientImportField,
+  patientImportFields,
+  PatientSex,
+} from "@/app/(protected)/patients/_constants";
+
+const patientSexAliases: Record<string, PatientSex> = {
+  m: "male",
+  masc: "male",
+  masculino: "male",
+  male: "male",
+  homem: "male",
+  f: "female",
+  fem: "female",
+  feminino: "female",
+  female: "female",
+  mulher: "female",
+};
+
+export const parsePatientSex = (value: string) =>
+  patientSexAliases[value.trim().toLowerCase()];
+
+// Spreadsheets usually hold dates as DD/MM/YYYY, while the patient schema
+// expects YYYY-MM-DD. Other formats are passed through to fail validation.
+export const parsePatientBirthDate = (value: string) => {
+  const match = value.trim().match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+
+  return match ? `${match[3]}-${match[2]}-${match[1]}` : value.trim();
+};
+
+// Maps each patient field to the index of the CSV column whose header looks
+// like it, so the user only has to fix the columns we could not recognize.
+export const guessPatientImportColumns = (headers: string[]) => {
+  const normalizedHeaders = headers.map((header) =>
+    header.trim().toLowerCase(),
+  );
+
+  return Object.fromEntries(
+    patientImportFields.map(({ key, aliases }) => [
+      key,
+      normalizedHeaders.findIndex((header) =>
+        (aliases as readonly string[]).includes(header),
+      ),
+    ]),
+  ) as Record<PatientImportField, number>;
+};
@@ -0,0 +1,184 @@
+"use client";
+
+import dayjs from "dayjs";
+import { MergeIcon } from "lucide-react";
+import { useAction } from "next-safe-action/hooks";
+import { toast } from "sonner";
+
+import { mergePatientsAction } from "@/actions/merge-patients";
+import { patientSexLabels } from "@/app/(protected)/patients/_constants";
+import { formatPatientAge } from "@/app/(protected)/patients/_helpers/age";
+import { DuplicateMatchField } from "@/app/(protected)/patients/_helpers/duplicates";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { patientsTable } from "@/db/schema";
+import { formatCpf } from "@/helpers/cpf";
+import { formatPhoneNumber } from "@/helpers/phone-number";
+import { cn } from "@/lib/utils";
+
+type PatientWithAppointments = typeof patientsTable.$inferSelect & {
+  appointments: { id: string }[];
+};
+
+const matchedFieldLabels: Record<DuplicateMatchField, string> = {
+  name: "Nome",
+  email: "E-mail",
+  phoneNumber: "Telefone",
+  cpf: "CPF",
+};
+
+interface DuplicatePatientsCardProps {
+  patients: [PatientWithAppointments, PatientWithAppointments];
+  matchedFields: DuplicateMatchField[];
+}
+
+const DuplicatePatientsCard = ({
+  patients,
+  matchedFields,
+}: DuplicatePatientsCardProps) => {
+  const mergePatients = useAction(mergePatientsAction, {
+    onSuccess: ({ data }) => {
+      toast.success(
+        `Pacientes mesclados! ${data?.movedAppointmentsCount} agendamentos movidos.`,
+      );
+    },
+    onError: () => {
+      toast.error("Erro ao mesclar pacientes.");
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Possível duplicidade</CardTitle>
+        <CardDescription className="flex items-center gap-2">
+          Coincidem:
+          {matchedFields.map((field) => (
+            <Badge key={field} variant="outline">
+              {matchedFieldLabels[field]}
+            </Badge>
+          ))}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid grid-cols-2 gap-4">
+        {patients.map((patient, index) => {
+          const otherPatient = patients[1 - index];
+          const fields = [
+            { field: "name", label: "Nome", value: patient.name },
+            { field: "email", label: "E-mail", value: patient.email ?? "-" },
+            {
+              field: "phoneNumber",
+              label: "Telefone",
+              value: patient.phoneNumber
+                ? formatPhoneNumber(patient.phoneNumber)
+                : "-",
+            },
+            {
+              field: "cpf",
+              label: "CPF",
+              value: patient.cpf ? formatCpf(patient.cpf) : "-",
+            },
+            {
+              field: "birthDate",
+              label: "Nascimento",
+              value: patient.birthDate
+                ? `${dayjs(patient.birthDate).format("DD/MM/YYYY")} (${formatPatientAge(patient.birthDate)})`
+                : "-",
+            },
+            {
+              field: "sex",
+              label: "Sexo",
+              value: patientSexLabels[patient.sex],
+            },
+            {
+              field: "appointments",
+              label: "Agendamentos",
+              value: patient.appointments.length.toString(),
+            },
+            {
+              field: "createdAt",
+              label: "Cadastrado em",
+              value: dayjs(patient.createdAt).format("DD/MM/YYYY"),
+            },
+          ];
+
+          return (
+            <div key={patient.id} className="space-y-4 rounded-md border p-4">
+              <dl className="space-y-2 text-sm">
+                {fields.map(({ field, label, value }) => (
+                  <div key={field}>
+                    <dt className="text-muted-foreground text-xs">{label}</dt>
+                    <dd
+                      className={cn(
+                        matchedFields.includes(field as DuplicateMatchField) &&
+                          "font-medium",
+                      )}
+                    >
+                      {value}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button
+                    variant="outline"
+                    className="w-full"
+                    disabled={mergePatients.isPending}
+                  >
+                    <MergeIcon />
+                    Manter este cadastro
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Mesclar pacientes?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      O cadastro de {otherPatient.name} será removido e seus{" "}
+                      {otherPatient.appointments.length} agendamentos serão
+                      movidos para {patient.name}. Esta ação não pode ser
+                      desfeita.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                    <AlertDialogAction
+                      onClick={() =>
+                        mergePatients.execute({
+                          survivingPatientId: patient.id,
+                          mergedPatientId: otherPatient.id,
+                        })
+                      }
+                    >
+                      Mesclar
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DuplicatePatientsCard;
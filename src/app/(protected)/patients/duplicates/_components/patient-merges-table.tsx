@@ -0,0 +1,68 @@
+import dayjs from "dayjs";
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { patientMergesTable, patientsTable } from "@/db/schema";
+import { formatPhoneNumber } from "@/helpers/phone-number";
+
+interface PatientMergesTableProps {
+  patientMerges: (typeof patientMergesTable.$inferSelect & {
+    survivingPatient: typeof patientsTable.$inferSelect;
+    mergedBy: { name: string } | null;
+  })[];
+}
+
+const PatientMergesTable = ({ patientMerges }: PatientMergesTableProps) => {
+  if (patientMerges.length === 0) {
+    return (
+      <div className="text-muted-foreground py-6 text-center">
+        Nenhuma mesclagem realizada.
+      </div>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Data</TableHead>
+          <TableHead>Cadastro removido</TableHead>
+          <TableHead>Mesclado em</TableHead>
+          <TableHead>Agendamentos movidos</TableHead>
+          <TableHead>Responsável</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {patientMerges.map((patientMerge) => (
+          <TableRow key={patientMerge.id}>
+            <TableCell>
+              {dayjs(patientMerge.createdAt).format("DD/MM/YYYY HH:mm")}
+            </TableCell>
+            <TableCell>
+              <div>{patientMerge.mergedPatientData.name}</div>
+              <div className="text-muted-foreground text-xs">
+                {patientMerge.mergedPatientData.email ?? "-"} ·{" "}
+                {patientMerge.mergedPatientData.phoneNumber
+                  ? formatPhoneNumber(
+                      patientMerge.mergedPatientData.phoneNumber,
+                    )
+                  : "-"}
+              </div>
+            </TableCell>
+            <TableCell>{patientMerge.survivingPatient.name}</TableCell>
+            <TableCell>{patientMerge.movedAppointmentsCount}</TableCell>
+            <TableCell>{patientMerge.mergedBy?.name ?? "-"}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default PatientMergesTable;
@@ -0,0 +1,111 @@
+import { and, desc, eq, isNull } from "drizzle-orm";
+import { UsersIcon } from "lucide-react";
+import { headers } from "next/headers";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+
+import { findDuplicatePatients } from "@/app/(protected)/patients/_helpers/duplicates";
+import DuplicatePatientsCard from "@/app/(protected)/patients/duplicates/_components/duplicate-patients-card";
+import PatientMergesTable from "@/app/(protected)/patients/duplicates/_components/patient-merges-table";
+import { Button } from "@/components/ui/button";
+import {
+  PageActions,
+  PageContainer,
+  PageContent,
+  PageDescription,
+  PageHeader,
+  PageHeaderContent,
+  PageTitle,
+} from "@/components/ui/page-container";
+import { db } from "@/db";
+import { patientMergesTable, patientsTable } from "@/db/schema";
+import { auth } from "@/lib/auth";
+
+const DuplicatePatientsPage = async () => {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session?.user) {
+    redirect("/authentication");
+  }
+
+  if (!session?.user.clinic) {
+    redirect("/clinic-form");
+  }
+
+  const [patients, patientMerges] = await Promise.all([
+    db.query.patientsTable.findMany({
+      where: and(
+        eq(patientsTable.clinicId, session.user.clinic.id),
+        isNull(patientsTable.anonymizedAt),
+      ),
+      with: {
+        appointments: {
+          columns: {
+            id: true,
+          },
+        },
+      },
+    }),
+    db.query.patientMergesTable.findMany({
+      where: eq(patientMergesTable.clinicId, session.user.clinic.id),
+      with: {
+        survivingPatient: true,
+        mergedBy: {
+          columns: {
+            name: true,
+          },
+        },
+      },
+      orderBy: [desc(patientMergesTable.createdAt)],
+      limit: 20,
+    }),
+  ]);
+
+  const duplicates = findDuplicatePatients(patients);
+
+  return (
+    <PageContainer>
+      <PageHeader>
+        <PageHeaderContent>
+          <PageTitle>Pacientes duplicados</PageTitle>
+          <PageDescription>
+            Cadastros com nome, e-mail ou telefone semelhantes
+          </PageDescription>
+        </PageHeaderContent>
+        <PageActions>
+          <Button variant="outline" asChild>
+            <Link href="/patients">
+              <UsersIcon />
+              Ver pacientes
+            </Link>
+          </Button>
+        </PageActions>
+      </PageHeader>
+      <PageContent>
+        {duplicates.length > 0 ? (
+          <div className="space-y-4">
+            {duplicates.map(({ patients, matchedFields }) => (
+              <DuplicatePatientsCard
+                key={`${patients[0].id}:${patients[1].id}`}
+                patients={patients}
+                matchedFields={matchedFields}
+              />
+            ))}
+          </div>
+        ) : (
+          <div className="text-muted-foreground py-6 text-center">
+            Nenhum paciente duplicado encontrado.
+          </div>
+        )}
+        <div className="space-y-2">
+          <h2 className="font-semibold">Histórico de mesclagens</h2>
+          <PatientMergesTable patientMerges={patientMerges} />
+        </div>
+      </PageContent>
+    </PageContainer>
+  );
+};
+
+export default DuplicatePatientsPage;
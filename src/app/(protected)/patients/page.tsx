@@ -0,0 +1,75 @@
+import { asc, eq } from "drizzle-orm";
+import { CopyIcon, DownloadIcon } from "lucide-react";
+import { headers } from "next/headers";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+
+import AddPatientButton from "@/app/(protected)/patients/_components/add-patient-button";
+import ImportPatientsButton from "@/app/(protected)/patients/_components/import-patients-button";
+import PatientsTable from "@/app/(protected)/patients/_components/patients-table";
+import { Button } from "@/components/ui/button";
+import {
+  PageActions,
+  PageContainer,
+  PageContent,
+  PageDescription,
+  PageHeader,
+  PageHeaderContent,
+  PageTitle,
+} from "@/components/ui/page-container";
+import { db } from "@/db";
+import { patientsTable } from "@/db/schema";
+import { auth } from "@/lib/auth";
+
+const PatientsPage = async () => {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session?.user) {
+    redirect("/authentication");
+  }
+
+  if (!session?.user.clinic) {
+    redirect("/clinic-form");
+  }
+
+  const patients = await db.query.patientsTable.findMany({
+    where: eq(patientsTable.clinicId, session.user.clinic.id),
+    orderBy: [asc(patientsTable.name)],
+  });
+
+  return (
+    <PageContainer>
+      <PageHeader>
+        <PageHeaderContent>
+          <PageTitle>Pacientes</PageTitle>
+          <PageDescription>
+            Gerencie os pacientes de sua clínica
+          </PageDescription>
+        </PageHeaderContent>
+        <PageActions>
+          <Button variant="outline" asChild>
+            <Link href="/patients/duplicates">
+              <CopyIcon />
+              Duplicados
+            </Link>
+          </Button>
+          <Button variant="outline" asChild>
+            <a href="/api/patients/export" download>
+              <DownloadIcon />
+              Exportar CSV
+            </a>
+          </Button>
+          <ImportPatientsButton />
+          <AddPatientButton />
+        </PageActions>
+      </PageHeader>
+      <PageContent>
+        <PatientsTable patients={patients} />
+      </PageContent>
+    </PageContainer>
+  );
+};
+
+export default PatientsPage;
@@ -0,0 +1,61 @@
+import { eq } from "drizzle-orm";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { getAvailableTimeSlots } from "@/data/get-available-time-slots";
+import { db } from "@/db";
+import { doctorsTable } from "@/db/schema";
+import { auth } from "@/lib/auth";
+
+const searchParamsSchema = z.object({
+  date: z.string().date(),
+  ignoreAppointmentId: z.string().uuid().optional(),
+});
+
+export const GET = async (
+  request: NextRequest,
+  { params }: { params: Promise<{ doctorId: string }> },
+) => {
+  const session = await auth.api.getSession({
+    headers: request.headers,
+  });
+
+  if (!session?.user) {
+    return NextResponse.json(
+      { error: "Usuário não autenticado" },
+      { status: 401 },
+    );
+  }
+
+  const { doctorId } = await params;
+  const searchParams = searchParamsSchema.safeParse(
+    Object.fromEntries(request.nextUrl.searchParams),
+  );
+
+  if (!searchParams.success || !z.string().uuid().safeParse(doctorId).success) {
+    return NextResponse.json(
+      { error: "Parâmetros inválidos" },
+      { status: 400 },
+    );
+  }
+
+  const doctor = await db.query.doctorsTable.findFirst({
+    where: eq(doctorsTable.id, doctorId),
+  });
+
+  if (!session.user.clinic || doctor?.clinicId !== session.user.clinic.id) {
+    return NextResponse.json(
+      { error: "Médico não encontrado" },
+      { status: 404 },
+    );
+  }
+
+  const slots = await getAvailableTimeSlots({
+    doctor,
+    date: searchParams.data.date,
+    timeZone: session.user.clinic.timeZone,
+    ignoreAppointmentId: searchParams.data.ignoreAppointmentId,
+  });
+
+  return NextResponse.json({ slots });
+};
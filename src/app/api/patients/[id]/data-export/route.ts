@@ -0,0 +1,72 @@
+import dayjs from "dayjs";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { getPatientDataExport } from "@/data/get-patient-data-export";
+import { db } from "@/db";
+import { patientDataRequestsTable } from "@/db/schema";
+import { auth } from "@/lib/auth";
+
+export const GET = async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) => {
+  const session = await auth.api.getSession({
+    headers: request.headers,
+  });
+
+  if (!session?.user) {
+    return NextResponse.json(
+      { error: "Usuário não autenticado" },
+      { status: 401 },
+    );
+  }
+
+  if (!session.user.clinic?.id) {
+    return NextResponse.json(
+      { error: "Usuário não associado a uma clínica" },
+      { status: 403 },
+    );
+  }
+
+  // The export includes clinical notes, which only the owner may read for
+  // every doctor.
+  if (session.user.clinic.role !== "owner") {
+    return NextResponse.json(
+      { error: "Apenas o proprietário da clínica pode exportar dados" },
+      { status: 403 },
+    );
+  }
+
+  const { id } = await params;
+  const patient = z.string().uuid().safeParse(id).success
+    ? await getPatientDataExport(id)
+    : undefined;
+
+  if (!patient || patient.clinicId !== session.user.clinic.id) {
+    return NextResponse.json(
+      { error: "Paciente não encontrado" },
+      { status: 404 },
+    );
+  }
+
+  await db.insert(patientDataRequestsTable).values({
+    type: "export",
+    clinicId: session.user.clinic.id,
+    patientId: patient.id,
+    requestedByUserId: session.user.id,
+  });
+
+  const data = {
+    exportedAt: new Date(),
+    clinic: session.user.clinic.name,
+    patient,
+  };
+
+  return new NextResponse(JSON.stringify(data, null, 2), {
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "Content-Disposition": `attachment; filename="paciente-${patient.id}-${dayjs().format("YYYY-MM-DD")}.json"`,
+    },
+  });
+};
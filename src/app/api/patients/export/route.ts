@@ -0,0 +1,80 @@
+import dayjs from "dayjs";
+import { and, asc, eq, isNull } from "drizzle-orm";
+import { NextRequest, NextResponse } from "next/server";
+
+import {
+  PatientImportField,
+  patientImportFields,
+  patientSexLabels,
+} from "@/app/(protected)/patients/_constants";
+import { db } from "@/db";
+import { patientsTable } from "@/db/schema";
+import { formatCpf } from "@/helpers/cpf";
+import { toCsv } from "@/helpers/csv";
+import { formatPhoneNumber } from "@/helpers/phone-number";
+import { auth } from "@/lib/auth";
+
+const exportedValues: Record<
+  PatientImportField,
+  (patient: typeof patientsTable.$inferSelect) => string
+> = {
+  name: (patient) => patient.name,
+  email: (patient) => patient.email ?? "",
+  phoneNumber: (patient) =>
+    patient.phoneNumber ? formatPhoneNumber(patient.phoneNumber) : "",
+  cpf: (patient) => (patient.cpf ? formatCpf(patient.cpf) : ""),
+  sex: (patient) => patientSexLabels[patient.sex],
+  birthDate: (patient) =>
+    patient.birthDate ? dayjs(patient.birthDate).format("DD/MM/YYYY") : "",
+  guardianName: (patient) => patient.guardianName ?? "",
+  guardianCpf: (patient) =>
+    patient.guardianCpf ? formatCpf(patient.guardianCpf) : "",
+  guardianPhoneNumber: (patient) =>
+    patient.guardianPhoneNumber
+      ? formatPhoneNumber(patient.guardianPhoneNumber)
+      : "",
+};
+
+export const GET = async (request: NextRequest) => {
+  const session = await auth.api.getSession({
+    headers: request.headers,
+  });
+
+  if (!session?.user) {
+    return NextResponse.json(
+      { error: "Usuário não autenticado" },
+      { status: 401 },
+    );
+  }
+
+  if (!session.user.clinic?.id) {
+    return NextResponse.json(
+      { error: "Usuário não associado a uma clínica" },
+      { status: 403 },
+    );
+  }
+
+  const patients = await db.query.patientsTable.findMany({
+    where: and(
+      eq(patientsTable.clinicId, session.user.clinic.id),
+      isNull(patientsTable.anonymizedAt),
+    ),
+    orderBy: [asc(patientsTable.name)],
+  });
+
+  // Uses the same headers as the import, so an exported file can be imported
+  // back without remapping columns.
+  const csv = toCsv([
+    patientImportFields.map((field) => field.label),
+    ...patients.map((patient) =>
+      patientImportFields.map(({ key }) => exportedValues[key](patient)),
+    ),
+  ]);
+
+  return new NextResponse(`\uFEFF${csv}`, {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="pacientes-${dayjs().format("YYYY-MM-DD")}.csv"`,
+    },
+  });
+};
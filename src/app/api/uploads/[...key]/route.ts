@@ -0,0 +1,34 @@
+import path from "node:path";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { getImageContentTypeFromExtension } from "@/helpers/image";
+import { readLocalFile } from "@/lib/storage/local";
+
+// Uploaded files are doctor photos, which are public like the profiles that
+// show them, so no session is required.
+export const GET = async (
+  _request: NextRequest,
+  { params }: { params: Promise<{ key: string[] }> },
+) => {
+  const { key } = await params;
+  const contentType = getImageContentTypeFromExtension(
+    path.extname(key.join("/")).slice(1),
+  );
+  const file = contentType ? await readLocalFile(key.join("/")) : null;
+
+  if (!contentType || !file) {
+    return NextResponse.json(
+      { error: "Arquivo não encontrado" },
+      { status: 404 },
+    );
+  }
+
+  return new NextResponse(file, {
+    headers: {
+      "Content-Type": contentType,
+      // Keys are never reused, so files can be cached indefinitely.
+      "Cache-Control": "public, max-age=31536000, immutable",
+    },
+  });
+};
@@ -0,0 +1,126 @@
+import dayjs from "dayjs";
+import { and, eq, gt, lt, ne, notInArray } from "drizzle-orm";
+
+import {
+  AppointmentLength,
+  getOccupiedMinutes,
+  isTimeSlotTaken,
+  isWithinAvailability,
+  MAX_OCCUPIED_MINUTES,
+} from "@/app/(protected)/doctors/_helpers/availability";
+import { getClinicClosureHoliday } from "@/data/get-clinic-closure-holiday";
+import { getDoctorWithAvailabilities } from "@/data/get-doctor-with-availabilities";
+import { Transaction } from "@/db";
+import { appointmentsTable, doctorsTable } from "@/db/schema";
+import { getClinicDate } from "@/helpers/time-zone";
+
+interface CheckAppointmentAvailabilityParams {
+  // The booking's transaction, after lockDoctorSchedule, so no other booking
+  // for the doctor can land between this check and the write.
+  tx: Transaction;
+  doctor: typeof doctorsTable.$inferSelect;
+  date: Date;
+  timeZone: string;
+  // New bookings take the doctor's current length; moved ones keep their own.
+  appointmentLength?: AppointmentLength;
+  ignoreAppointmentIds?: string[];
+}
+
+type AppointmentAvailability =
+  | { available: true }
+  | { available: false; reason: string };
+
+// Bookings for the same doctor queue on this row lock until the transaction
+// holding it commits.
+export const lockDoctorSchedule = async (tx: Transaction, doctorId: string) => {
+  await tx
+    .select({ id: doctorsTable.id })
+    .from(doctorsTable)
+    .where(eq(doctorsTable.id, doctorId))
+    .for("update");
+};
+
+export const checkAppointmentAvailability = async ({
+  tx,
+  doctor,
+  date,
+  timeZone,
+  appointmentLength = doctor,
+  ignoreAppointmentIds = [],
+}: CheckAppointmentAvailabilityParams): Promise<AppointmentAvailability> => {
+  const start = dayjs(date);
+  const end = start.add(
+    appointmentLength.appointmentDurationInMinutes,
+    "minute",
+  );
+
+  if (!start.isAfter(dayjs())) {
+    return {
+      available: false,
+      reason: "Não é possível agendar em uma data passada.",
+    };
+  }
+  // Same clinic day the time-slot picker uses for this appointment.
+  const clinicDate = getClinicDate(date, timeZone);
+
+  const holiday = await getClinicClosureHoliday({
+    clinicId: doctor.clinicId,
+    date: clinicDate,
+  });
+
+  if (holiday) {
+    return {
+      available: false,
+      reason: `A clínica não atende no feriado: ${holiday.name}.`,
+    };
+  }
+
+  const doctorWithAvailabilities = await getDoctorWithAvailabilities({
+    doctor,
+    date: clinicDate,
+    timeZone,
+  });
+
+  if (
+    !isWithinAvailability(
+      doctorWithAvailabilities,
+      start.toDate(),
+      end.toDate(),
+      timeZone,
+    )
+  ) {
+    return {
+      available: false,
+      reason: "O médico não atende neste dia ou horário.",
+    };
+  }
+
+  // Each existing appointment occupies the length it was booked with, so the
+  // query only narrows the candidates and the overlap is checked below.
+  const nearbyAppointments = await tx.query.appointmentsTable.findMany({
+    where: and(
+      eq(appointmentsTable.doctorId, doctor.id),
+      ne(appointmentsTable.status, "cancelled"),
+      gt(
+        appointmentsTable.date,
+        start.subtract(MAX_OCCUPIED_MINUTES, "minute").toDate(),
+      ),
+      lt(
+        appointmentsTable.date,
+        start.add(getOccupiedMinutes(appointmentLength), "minute").toDate(),
+      ),
+      ignoreAppointmentIds.length > 0
+        ? notInArray(appointmentsTable.id, ignoreAppointmentIds)
+        : undefined,
+    ),
+  });
+
+  if (isTimeSlotTaken(appointmentLength, date, nearbyAppointments)) {
+    return {
+      available: false,
+      reason: "O médico já possui um agendamento neste horário.",
+    };
+  }
+
+  return { available: true };
+};
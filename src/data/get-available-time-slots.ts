@@ -0,0 +1,76 @@
+import dayjs from "dayjs";
+import { and, eq, gt, lt, ne } from "drizzle-orm";
+
+import {
+  getOccupiedMinutes,
+  getTimeSlots,
+  isTimeSlotTaken,
+  MAX_OCCUPIED_MINUTES,
+} from "@/app/(protected)/doctors/_helpers/availability";
+import { getClinicClosureHoliday } from "@/data/get-clinic-closure-holiday";
+import { getDoctorWithAvailabilities } from "@/data/get-doctor-with-availabilities";
+import { db } from "@/db";
+import { appointmentsTable, doctorsTable } from "@/db/schema";
+import { getClinicDayRange } from "@/helpers/time-zone";
+
+interface GetAvailableTimeSlotsParams {
+  doctor: typeof doctorsTable.$inferSelect;
+  date: string;
+  timeZone: string;
+  ignoreAppointmentId?: string;
+}
+
+export const getAvailableTimeSlots = async ({
+  doctor,
+  date,
+  timeZone,
+  ignoreAppointmentId,
+}: GetAvailableTimeSlotsParams) => {
+  const holiday = await getClinicClosureHoliday({
+    clinicId: doctor.clinicId,
+    date,
+  });
+
+  if (holiday) {
+    return [];
+  }
+
+  const slots = getTimeSlots(
+    await getDoctorWithAvailabilities({ doctor, date, timeZone }),
+    date,
+    timeZone,
+  );
+
+  if (slots.length === 0) {
+    return [];
+  }
+
+  const day = getClinicDayRange(date, timeZone);
+  const appointments = await db.query.appointmentsTable.findMany({
+    where: and(
+      eq(appointmentsTable.doctorId, doctor.id),
+      ne(appointmentsTable.status, "cancelled"),
+      gt(
+        appointmentsTable.date,
+        day.start.subtract(MAX_OCCUPIED_MINUTES, "minute").toDate(),
+      ),
+      lt(
+        appointmentsTable.date,
+        day.end.add(getOccupiedMinutes(doctor), "minute").toDate(),
+      ),
+      ignoreAppointmentId
+        ? ne(appointmentsTable.id, ignoreAppointmentId)
+        : undefined,
+    ),
+  });
+
+  const now = dayjs();
+
+  return slots.filter((slot) => {
+    if (!dayjs(slot).isAfter(now)) {
+      return false;
+    }
+
+    return !isTimeSlotTaken(doctor, slot, appointments);
+  });
+};
@@ -0,0 +1,29 @@
+import { eq } from "drizzle-orm";
+
+import { db } from "@/db";
+import { clinicsTable } from "@/db/schema";
+import { findHoliday } from "@/helpers/holidays";
+
+interface GetClinicClosureHolidayParams {
+  clinicId: string;
+  date: string;
+}
+
+// Returns the holiday that keeps the clinic closed on the given date, if any.
+export const getClinicClosureHoliday = async ({
+  clinicId,
+  date,
+}: GetClinicClosureHolidayParams) => {
+  const clinic = await db.query.clinicsTable.findFirst({
+    where: eq(clinicsTable.id, clinicId),
+    with: {
+      holidays: true,
+    },
+  });
+
+  if (!clinic || clinic.openOnHolidays) {
+    return undefined;
+  }
+
+  return findHoliday(date, clinic.holidays);
+};
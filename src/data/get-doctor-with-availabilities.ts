@@ -0,0 +1,40 @@
+import { and, eq, gt, lt } from "drizzle-orm";
+
+import { DoctorWithAvailabilities } from "@/app/(protected)/doctors/_types";
+import { db } from "@/db";
+import {
+  doctorAvailabilitiesTable,
+  doctorAvailabilityExceptionsTable,
+  doctorsTable,
+} from "@/db/schema";
+import { getClinicDayRange } from "@/helpers/time-zone";
+
+interface GetDoctorWithAvailabilitiesParams {
+  doctor: typeof doctorsTable.$inferSelect;
+  date: string;
+  timeZone: string;
+}
+
+// Loads the weekly windows and the exceptions touching the given clinic day.
+export const getDoctorWithAvailabilities = async ({
+  doctor,
+  date,
+  timeZone,
+}: GetDoctorWithAvailabilitiesParams): Promise<DoctorWithAvailabilities> => {
+  const day = getClinicDayRange(date, timeZone);
+
+  const [availabilities, availabilityExceptions] = await Promise.all([
+    db.query.doctorAvailabilitiesTable.findMany({
+      where: eq(doctorAvailabilitiesTable.doctorId, doctor.id),
+    }),
+    db.query.doctorAvailabilityExceptionsTable.findMany({
+      where: and(
+        eq(doctorAvailabilityExceptionsTable.doctorId, doctor.id),
+        lt(doctorAvailabilityExceptionsTable.startsAt, day.end.toDate()),
+        gt(doctorAvailabilityExceptionsTable.endsAt, day.start.toDate()),
+      ),
+    }),
+  ]);
+
+  return { ...doctor, availabilities, availabilityExceptions };
+};
@@ -0,0 +1,59 @@
+import { asc, eq } from "drizzle-orm";
+
+import { db } from "@/db";
+import {
+  appointmentsTable,
+  clinicalNoteVersionsTable,
+  patientDataRequestsTable,
+  patientMergesTable,
+  patientsTable,
+} from "@/db/schema";
+
+// Everything stored about a patient, for LGPD access requests. Tables that
+// reference a patient must be added here as well.
+export const getPatientDataExport = async (patientId: string) => {
+  const [patient, merges] = await Promise.all([
+    db.query.patientsTable.findFirst({
+      where: eq(patientsTable.id, patientId),
+      with: {
+        appointments: {
+          with: {
+            doctor: {
+              columns: {
+                name: true,
+                specialty: true,
+                crmNumber: true,
+                crmState: true,
+              },
+            },
+            statusChanges: true,
+            reschedules: true,
+            clinicalNote: {
+              with: {
+                versions: {
+                  orderBy: [asc(clinicalNoteVersionsTable.version)],
+                },
+              },
+            },
+          },
+          orderBy: [asc(appointmentsTable.date)],
+        },
+        appointmentSeries: true,
+        waitlistEntries: true,
+        dataRequests: {
+          orderBy: [asc(patientDataRequestsTable.createdAt)],
+        },
+      },
+    }),
+    db.query.patientMergesTable.findMany({
+      where: eq(patientMergesTable.survivingPatientId, patientId),
+      orderBy: [asc(patientMergesTable.createdAt)],
+    }),
+  ]);
+
+  if (!patient) {
+    return undefined;
+  }
+
+  return { ...patient, merges };
+};
@@ -0,0 +1,27 @@
+import { and, asc, eq, gte } from "drizzle-orm";
+
+import { AppointmentSeriesScope } from "@/app/(protected)/appointments/_constants";
+import { db } from "@/db";
+import { appointmentsTable } from "@/db/schema";
+
+export const getSeriesAppointmentsInScope = async (
+  appointment: typeof appointmentsTable.$inferSelect,
+  scope: AppointmentSeriesScope,
+) => {
+  if (scope === "single" || !appointment.seriesId) {
+    return [appointment];
+  }
+
+  return db.query.appointmentsTable.findMany({
+    where: and(
+      eq(appointmentsTable.seriesId, appointment.seriesId),
+      // "all" only reaches the occurrences still ahead; past ones are kept
+      // as they happened.
+      gte(
+        appointmentsTable.date,
+        scope === "future" ? appointment.date : new Date(),
+      ),
+    ),
+    orderBy: [asc(appointmentsTable.date)],
+  });
+};
@@ -0,0 +1,38 @@
+import { and, asc, desc, eq, gte, isNull, lte, ne, or } from "drizzle-orm";
+
+import { db } from "@/db";
+import {
+  appointmentsTable,
+  doctorsTable,
+  waitlistEntriesTable,
+} from "@/db/schema";
+
+export const getWaitlistSuggestions = async (
+  appointment: typeof appointmentsTable.$inferSelect & {
+    doctor: typeof doctorsTable.$inferSelect;
+  },
+) => {
+  return db.query.waitlistEntriesTable.findMany({
+    where: and(
+      eq(waitlistEntriesTable.clinicId, appointment.clinicId),
+      eq(waitlistEntriesTable.status, "waiting"),
+      ne(waitlistEntriesTable.patientId, appointment.patientId),
+      or(
+        eq(waitlistEntriesTable.doctorId, appointment.doctorId),
+        and(
+          isNull(waitlistEntriesTable.doctorId),
+          eq(waitlistEntriesTable.specialty, appointment.doctor.specialty),
+        ),
+      ),
+      lte(waitlistEntriesTable.preferredFromDate, appointment.date),
+      gte(waitlistEntriesTable.preferredToDate, appointment.date),
+    ),
+    with: {
+      patient: true,
+    },
+    orderBy: [
+      desc(waitlistEntriesTable.priority),
+      asc(waitlistEntriesTable.createdAt),
+    ],
+  });
+};
@@ -7,3 +7,5 @@ import * as schema from "@/db/schema";
 export const db = drizzle(process.env.DATABASE_URL!, {
   schema,
 });
+
+export type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
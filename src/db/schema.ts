@@ -1,12 +1,15 @@
 import { relations } from "drizzle-orm";
 import {
   boolean,
+  date,
   integer,
+  jsonb,
   pgEnum,
   pgTable,
   text,
   time,
   timestamp,
+  unique,
   uuid,
 } from "drizzle-orm/pg-core";
 
@@ -72,11 +75,16 @@ export const usersTable = pgTable("users", {
 
 export const usersTableRelations = relations(usersTable, ({ many }) => ({
   usersToClinics: many(usersToClinicsTable),
+  doctors: many(doctorsTable),
 }));
 
 export const clinicsTable = pgTable("clinics", {
   id: uuid("id").primaryKey().defaultRandom(),
   name: text("name").notNull(),
+  // Holidays block booking unless the clinic opts in to staying open.
+  openOnHolidays: boolean("open_on_holidays").notNull().default(false),
+  // Availability windows and calendar days are resolved in this zone.
+  timeZone: text("time_zone").notNull().default("America/Sao_Paulo"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at")
     .defaultNow()
@@ -88,8 +96,56 @@ export const clinicsTableRelations = relations(clinicsTable, ({ many }) => ({
   patients: many(patientsTable),
   appointments: many(appointmentsTable),
   usersToClinics: many(usersToClinicsTable),
+  holidays: many(clinicHolidaysTable),
 }));
 
+export const clinicHolidayTypeEnum = pgEnum("clinic_holiday_type", [
+  "state",
+  "municipal",
+  "clinic",
+]);
+
+// National holidays are computed in code; this table only holds the ones a
+// clinic adds itself. Recurring holidays repeat every year on the same day.
+export const clinicHolidaysTable = pgTable(
+  "clinic_holidays",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    clinicId: uuid("clinic_id")
+      .notNull()
+      .references(() => clinicsTable.id, { onDelete: "cascade" }),
+    type: clinicHolidayTypeEnum("type").notNull(),
+    name: text("name").notNull(),
+    date: date("date").notNull(),
+    recurring: boolean("recurring").notNull().default(false),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date()),
+  },
+  (table) => [
+    unique("clinic_holidays_clinic_id_date_unique").on(
+      table.clinicId,
+      table.date,
+    ),
+  ],
+);
+
+export const clinicHolidaysTableRelations = relations(
+  clinicHolidaysTable,
+  ({ one }) => ({
+    clinic: one(clinicsTable, {
+      fields: [clinicHolidaysTable.clinicId],
+      references: [clinicsTable.id],
+    }),
+  }),
+);
+
+export const clinicMemberRoleEnum = pgEnum("clinic_member_role", [
+  "owner",
+  "member",
+]);
+
 export const usersToClinicsTable = pgTable("users_to_clinics", {
   userId: text("user_id")
     .notNull()
@@ -97,6 +153,7 @@ export const usersToClinicsTable = pgTable("users_to_clinics", {
   clinicId: uuid("clinic_id")
     .notNull()
     .references(() => clinicsTable.id, { onDelete: "cascade" }),
+  role: clinicMemberRoleEnum("role").notNull().default("member"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at")
     .defaultNow()
@@ -117,24 +174,73 @@ export const usersToClinicsTableRelations = relations(
   }),
 );
 
-export const doctorsTable = pgTable("doctors", {
-  id: uuid("id").primaryKey().defaultRandom(),
-  name: text("name").notNull(),
-  avatarImageUrl: text("avatar_image_url"),
-  specialty: text("specialty").notNull(),
-  availableFromWeekDay: integer("available_from_week_day").notNull(),
-  availableToWeekDay: integer("available_to_week_day").notNull(),
-  availableFromTime: time("available_from_time").notNull(),
-  availableToTime: time("available_to_time").notNull(),
-  appointmentPriceInCents: integer("appointment_price_in_cents").notNull(),
-  clinicId: uuid("clinic_id")
-    .notNull()
-    .references(() => clinicsTable.id, { onDelete: "cascade" }),
-  createdAt: timestamp("created_at").defaultNow().notNull(),
-  updatedAt: timestamp("updated_at")
-    .defaultNow()
-    .$onUpdate(() => new Date()),
-});
+export const brazilianStateEnum = pgEnum("brazilian_state", [
+  "AC",
+  "AL",
+  "AM",
+  "AP",
+  "BA",
+  "CE",
+  "DF",
+  "ES",
+  "GO",
+  "MA",
+  "MG",
+  "MS",
+  "MT",
+  "PA",
+  "PB",
+  "PE",
+  "PI",
+  "PR",
+  "RJ",
+  "RN",
+  "RO",
+  "RR",
+  "RS",
+  "SC",
+  "SE",
+  "SP",
+  "TO",
+]);
+
+export const doctorsTable = pgTable(
+  "doctors",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    name: text("name").notNull(),
+    avatarImageUrl: text("avatar_image_url"),
+    specialty: text("specialty").notNull(),
+    // Nullable only for doctors registered before CRM was collected.
+    crmNumber: text("crm_number"),
+    crmState: brazilianStateEnum("crm_state"),
+    appointmentPriceInCents: integer("appointment_price_in_cents").notNull(),
+    appointmentDurationInMinutes: integer("appointment_duration_in_minutes")
+      .notNull()
+      .default(30),
+    appointmentBufferInMinutes: integer("appointment_buffer_in_minutes")
+      .notNull()
+      .default(0),
+    clinicId: uuid("clinic_id")
+      .notNull()
+      .references(() => clinicsTable.id, { onDelete: "cascade" }),
+    // The user account the doctor signs in with, if any.
+    userId: text("user_id").references(() => usersTable.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date()),
+  },
+  (table) => [
+    unique("doctors_clinic_id_crm_number_crm_state_unique").on(
+      table.clinicId,
+      table.crmNumber,
+      table.crmState,
+    ),
+  ],
+);
 
 export const doctorsTableRelations = relations(
   doctorsTable,
@@ -143,27 +249,114 @@ export const doctorsTableRelations = relations(
       fields: [doctorsTable.clinicId],
       references: [clinicsTable.id],
     }),
+    user: one(usersTable, {
+      fields: [doctorsTable.userId],
+      references: [usersTable.id],
+    }),
     appointments: many(appointmentsTable),
+    availabilities: many(doctorAvailabilitiesTable),
+    availabilityExceptions: many(doctorAvailabilityExceptionsTable),
   }),
 );
 
-export const patientSexEnum = pgEnum("patient_sex", ["male", "female"]);
-
-export const patientsTable = pgTable("patients", {
+// Weekly windows in which a doctor takes appointments. Times are wall-clock
+// times in the clinic's time zone, so a 19:00-23:00 shift stays on its day.
+export const doctorAvailabilitiesTable = pgTable("doctor_availabilities", {
   id: uuid("id").primaryKey().defaultRandom(),
-  name: text("name").notNull(),
-  sex: patientSexEnum("sex").notNull(),
-  email: text("email").notNull().unique(),
-  phoneNumber: text("phone_number").notNull().unique(),
-  clinicId: uuid("clinic_id")
+  doctorId: uuid("doctor_id")
     .notNull()
-    .references(() => clinicsTable.id, { onDelete: "cascade" }),
+    .references(() => doctorsTable.id, { onDelete: "cascade" }),
+  weekDay: integer("week_day").notNull(),
+  fromTime: time("from_time").notNull(),
+  toTime: time("to_time").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at")
     .defaultNow()
     .$onUpdate(() => new Date()),
 });
 
+export const doctorAvailabilitiesTableRelations = relations(
+  doctorAvailabilitiesTable,
+  ({ one }) => ({
+    doctor: one(doctorsTable, {
+      fields: [doctorAvailabilitiesTable.doctorId],
+      references: [doctorsTable.id],
+    }),
+  }),
+);
+
+export const availabilityExceptionTypeEnum = pgEnum(
+  "availability_exception_type",
+  ["block", "extra"],
+);
+
+// One-off changes to the weekly pattern: blocks remove availability (vacations,
+// conferences) and extras add it (an extra Saturday shift).
+export const doctorAvailabilityExceptionsTable = pgTable(
+  "doctor_availability_exceptions",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    doctorId: uuid("doctor_id")
+      .notNull()
+      .references(() => doctorsTable.id, { onDelete: "cascade" }),
+    type: availabilityExceptionTypeEnum("type").notNull(),
+    startsAt: timestamp("starts_at").notNull(),
+    endsAt: timestamp("ends_at").notNull(),
+    reason: text("reason"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date()),
+  },
+);
+
+export const doctorAvailabilityExceptionsTableRelations = relations(
+  doctorAvailabilityExceptionsTable,
+  ({ one }) => ({
+    doctor: one(doctorsTable, {
+      fields: [doctorAvailabilityExceptionsTable.doctorId],
+      references: [doctorsTable.id],
+    }),
+  }),
+);
+
+export const patientSexEnum = pgEnum("patient_sex", ["male", "female"]);
+
+export const patientsTable = pgTable(
+  "patients",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    name: text("name").notNull(),
+    sex: patientSexEnum("sex").notNull(),
+    email: text("email"),
+    phoneNumber: text("phone_number"),
+    // Stored as digits only, without the mask.
+    cpf: text("cpf"),
+    birthDate: date("birth_date"),
+    // Required while the patient is a minor.
+    guardianName: text("guardian_name"),
+    guardianCpf: text("guardian_cpf"),
+    guardianPhoneNumber: text("guardian_phone_number"),
+    // Set when the patient's personal data was erased on request (LGPD).
+    anonymizedAt: timestamp("anonymized_at"),
+    clinicId: uuid("clinic_id")
+      .notNull()
+      .references(() => clinicsTable.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date()),
+  },
+  (table) => [
+    unique("patients_clinic_id_email_unique").on(table.clinicId, table.email),
+    unique("patients_clinic_id_phone_number_unique").on(
+      table.clinicId,
+      table.phoneNumber,
+    ),
+    unique("patients_clinic_id_cpf_unique").on(table.clinicId, table.cpf),
+  ],
+);
+
 export const patientsTableRelations = relations(
   patientsTable,
   ({ many, one }) => ({
@@ -172,12 +365,65 @@ export const patientsTableRelations = relations(
       references: [clinicsTable.id],
     }),
     appointments: many(appointmentsTable),
+    appointmentSeries: many(appointmentSeriesTable),
+    waitlistEntries: many(waitlistEntriesTable),
+    clinicalNotes: many(clinicalNotesTable),
+    dataRequests: many(patientDataRequestsTable),
+  }),
+);
+
+export const appointmentStatusEnum = pgEnum("appointment_status", [
+  "scheduled",
+  "confirmed",
+  "checked_in",
+  "in_progress",
+  "completed",
+  "no_show",
+  "cancelled",
+]);
+
+export const appointmentSeriesTable = pgTable("appointment_series", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  intervalInWeeks: integer("interval_in_weeks").notNull(),
+  weekDays: integer("week_days").array().notNull(),
+  occurrences: integer("occurrences"),
+  endsAt: timestamp("ends_at"),
+  clinicId: uuid("clinic_id")
+    .notNull()
+    .references(() => clinicsTable.id, { onDelete: "cascade" }),
+  patientId: uuid("patient_id")
+    .notNull()
+    .references(() => patientsTable.id, { onDelete: "cascade" }),
+  doctorId: uuid("doctor_id")
+    .notNull()
+    .references(() => doctorsTable.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at")
+    .defaultNow()
+    .$onUpdate(() => new Date()),
+});
+
+export const appointmentSeriesTableRelations = relations(
+  appointmentSeriesTable,
+  ({ many }) => ({
+    appointments: many(appointmentsTable),
   }),
 );
 
 export const appointmentsTable = pgTable("appointments", {
   id: uuid("id").primaryKey().defaultRandom(),
   date: timestamp("date").notNull(),
+  status: appointmentStatusEnum("status").notNull().default("scheduled"),
+  appointmentPriceInCents: integer("appointment_price_in_cents").notNull(),
+  priceOverrideReason: text("price_override_reason"),
+  // Copied from the doctor when the appointment is booked, so changing the
+  // doctor's duration later does not resize appointments already made.
+  appointmentDurationInMinutes: integer(
+    "appointment_duration_in_minutes",
+  ).notNull(),
+  appointmentBufferInMinutes: integer("appointment_buffer_in_minutes")
+    .notNull()
+    .default(0),
   clinicId: uuid("clinic_id")
     .notNull()
     .references(() => clinicsTable.id, { onDelete: "cascade" }),
@@ -187,6 +433,9 @@ export const appointmentsTable = pgTable("appointments", {
   doctorId: uuid("doctor_id")
     .notNull()
     .references(() => doctorsTable.id, { onDelete: "cascade" }),
+  seriesId: uuid("series_id").references(() => appointmentSeriesTable.id, {
+    onDelete: "set null",
+  }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at")
     .defaultNow()
@@ -195,7 +444,7 @@ export const appointmentsTable = pgTable("appointments", {
 
 export const appointmentsTableRelations = relations(
   appointmentsTable,
-  ({ one }) => ({
+  ({ many, one }) => ({
     clinic: one(clinicsTable, {
       fields: [appointmentsTable.clinicId],
       references: [clinicsTable.id],
@@ -208,5 +457,303 @@ export const appointmentsTableRelations = relations(
       fields: [appointmentsTable.doctorId],
       references: [doctorsTable.id],
     }),
+    series: one(appointmentSeriesTable, {
+      fields: [appointmentsTable.seriesId],
+      references: [appointmentSeriesTable.id],
+    }),
+    statusChanges: many(appointmentStatusChangesTable),
+    reschedules: many(appointmentReschedulesTable),
+    clinicalNote: one(clinicalNotesTable),
+  }),
+);
+
+export const appointmentStatusChangesTable = pgTable(
+  "appointment_status_changes",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    appointmentId: uuid("appointment_id")
+      .notNull()
+      .references(() => appointmentsTable.id, { onDelete: "cascade" }),
+    fromStatus: appointmentStatusEnum("from_status").notNull(),
+    toStatus: appointmentStatusEnum("to_status").notNull(),
+    changedByUserId: text("changed_by_user_id").references(
+      () => usersTable.id,
+      { onDelete: "set null" },
+    ),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+);
+
+export const appointmentStatusChangesTableRelations = relations(
+  appointmentStatusChangesTable,
+  ({ one }) => ({
+    appointment: one(appointmentsTable, {
+      fields: [appointmentStatusChangesTable.appointmentId],
+      references: [appointmentsTable.id],
+    }),
+    changedBy: one(usersTable, {
+      fields: [appointmentStatusChangesTable.changedByUserId],
+      references: [usersTable.id],
+    }),
+  }),
+);
+
+export const appointmentReschedulesTable = pgTable("appointment_reschedules", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  appointmentId: uuid("appointment_id")
+    .notNull()
+    .references(() => appointmentsTable.id, { onDelete: "cascade" }),
+  previousDate: timestamp("previous_date").notNull(),
+  newDate: timestamp("new_date").notNull(),
+  reason: text("reason").notNull(),
+  rescheduledByUserId: text("rescheduled_by_user_id").references(
+    () => usersTable.id,
+    { onDelete: "set null" },
+  ),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const appointmentReschedulesTableRelations = relations(
+  appointmentReschedulesTable,
+  ({ one }) => ({
+    appointment: one(appointmentsTable, {
+      fields: [appointmentReschedulesTable.appointmentId],
+      references: [appointmentsTable.id],
+    }),
+    rescheduledBy: one(usersTable, {
+      fields: [appointmentReschedulesTable.rescheduledByUserId],
+      references: [usersTable.id],
+    }),
+  }),
+);
+
+export const waitlistEntryStatusEnum = pgEnum("waitlist_entry_status", [
+  "waiting",
+  "booked",
+  "removed",
+]);
+
+export const waitlistEntriesTable = pgTable("waitlist_entries", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  specialty: text("specialty"),
+  preferredFromDate: timestamp("preferred_from_date").notNull(),
+  preferredToDate: timestamp("preferred_to_date").notNull(),
+  priority: integer("priority").notNull().default(0),
+  notes: text("notes"),
+  status: waitlistEntryStatusEnum("status").notNull().default("waiting"),
+  clinicId: uuid("clinic_id")
+    .notNull()
+    .references(() => clinicsTable.id, { onDelete: "cascade" }),
+  patientId: uuid("patient_id")
+    .notNull()
+    .references(() => patientsTable.id, { onDelete: "cascade" }),
+  doctorId: uuid("doctor_id").references(() => doctorsTable.id, {
+    onDelete: "cascade",
+  }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at")
+    .defaultNow()
+    .$onUpdate(() => new Date()),
+});
+
+export const waitlistEntriesTableRelations = relations(
+  waitlistEntriesTable,
+  ({ one }) => ({
+    clinic: one(clinicsTable, {
+      fields: [waitlistEntriesTable.clinicId],
+      references: [clinicsTable.id],
+    }),
+    patient: one(patientsTable, {
+      fields: [waitlistEntriesTable.patientId],
+      references: [patientsTable.id],
+    }),
+    doctor: one(doctorsTable, {
+      fields: [waitlistEntriesTable.doctorId],
+      references: [doctorsTable.id],
+    }),
+  }),
+);
+
+export const patientMergesTable = pgTable("patient_merges", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  // The merged patient row is deleted, so its data is kept as a snapshot
+  // instead of a foreign key.
+  mergedPatientId: uuid("merged_patient_id").notNull(),
+  mergedPatientData: jsonb("merged_patient_data")
+    .$type<
+      Pick<
+        typeof patientsTable.$inferSelect,
+        | "name"
+        | "email"
+        | "phoneNumber"
+        | "sex"
+        | "cpf"
+        | "birthDate"
+        | "guardianName"
+        | "guardianCpf"
+        | "guardianPhoneNumber"
+      >
+    >()
+    .notNull(),
+  movedAppointmentsCount: integer("moved_appointments_count").notNull(),
+  clinicId: uuid("clinic_id")
+    .notNull()
+    .references(() => clinicsTable.id, { onDelete: "cascade" }),
+  survivingPatientId: uuid("surviving_patient_id")
+    .notNull()
+    .references(() => patientsTable.id, { onDelete: "cascade" }),
+  mergedByUserId: text("merged_by_user_id").references(() => usersTable.id, {
+    onDelete: "set null",
+  }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const patientMergesTableRelations = relations(
+  patientMergesTable,
+  ({ one }) => ({
+    clinic: one(clinicsTable, {
+      fields: [patientMergesTable.clinicId],
+      references: [clinicsTable.id],
+    }),
+    survivingPatient: one(patientsTable, {
+      fields: [patientMergesTable.survivingPatientId],
+      references: [patientsTable.id],
+    }),
+    mergedBy: one(usersTable, {
+      fields: [patientMergesTable.mergedByUserId],
+      references: [usersTable.id],
+    }),
+  }),
+);
+
+// Medical records must be retained, so deleting the appointment or patient of
+// a note is refused by the database instead of cascading to it.
+export const clinicalNotesTable = pgTable("clinical_notes", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  appointmentId: uuid("appointment_id")
+    .notNull()
+    .unique()
+    .references(() => appointmentsTable.id, { onDelete: "restrict" }),
+  patientId: uuid("patient_id")
+    .notNull()
+    .references(() => patientsTable.id, { onDelete: "restrict" }),
+  clinicId: uuid("clinic_id")
+    .notNull()
+    .references(() => clinicsTable.id, { onDelete: "cascade" }),
+  authorUserId: text("author_user_id").references(() => usersTable.id, {
+    onDelete: "set null",
+  }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at")
+    .defaultNow()
+    .$onUpdate(() => new Date()),
+});
+
+export const clinicalNotesTableRelations = relations(
+  clinicalNotesTable,
+  ({ many, one }) => ({
+    appointment: one(appointmentsTable, {
+      fields: [clinicalNotesTable.appointmentId],
+      references: [appointmentsTable.id],
+    }),
+    patient: one(patientsTable, {
+      fields: [clinicalNotesTable.patientId],
+      references: [patientsTable.id],
+    }),
+    clinic: one(clinicsTable, {
+      fields: [clinicalNotesTable.clinicId],
+      references: [clinicsTable.id],
+    }),
+    author: one(usersTable, {
+      fields: [clinicalNotesTable.authorUserId],
+      references: [usersTable.id],
+    }),
+    versions: many(clinicalNoteVersionsTable),
+  }),
+);
+
+// Signed versions are never updated; amendments are stored as new versions.
+export const clinicalNoteVersionsTable = pgTable(
+  "clinical_note_versions",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    clinicalNoteId: uuid("clinical_note_id")
+      .notNull()
+      .references(() => clinicalNotesTable.id, { onDelete: "restrict" }),
+    version: integer("version").notNull(),
+    chiefComplaint: text("chief_complaint").notNull(),
+    history: text("history").notNull(),
+    physicalExam: text("physical_exam").notNull(),
+    assessment: text("assessment").notNull(),
+    plan: text("plan").notNull(),
+    createdByUserId: text("created_by_user_id").references(
+      () => usersTable.id,
+      { onDelete: "set null" },
+    ),
+    signedAt: timestamp("signed_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date()),
+  },
+  (table) => [
+    unique("clinical_note_versions_clinical_note_id_version_unique").on(
+      table.clinicalNoteId,
+      table.version,
+    ),
+  ],
+);
+
+export const clinicalNoteVersionsTableRelations = relations(
+  clinicalNoteVersionsTable,
+  ({ one }) => ({
+    clinicalNote: one(clinicalNotesTable, {
+      fields: [clinicalNoteVersionsTable.clinicalNoteId],
+      references: [clinicalNotesTable.id],
+    }),
+    createdBy: one(usersTable, {
+      fields: [clinicalNoteVersionsTable.createdByUserId],
+      references: [usersTable.id],
+    }),
+  }),
+);
+
+export const patientDataRequestTypeEnum = pgEnum("patient_data_request_type", [
+  "export",
+  "anonymization",
+]);
+
+// Audit trail of LGPD requests. Rows are kept even if the patient is deleted.
+export const patientDataRequestsTable = pgTable("patient_data_requests", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  type: patientDataRequestTypeEnum("type").notNull(),
+  clinicId: uuid("clinic_id")
+    .notNull()
+    .references(() => clinicsTable.id, { onDelete: "cascade" }),
+  patientId: uuid("patient_id").references(() => patientsTable.id, {
+    onDelete: "set null",
+  }),
+  requestedByUserId: text("requested_by_user_id").references(
+    () => usersTable.id,
+    { onDelete: "set null" },
+  ),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const patientDataRequestsTableRelations = relations(
+  patientDataRequestsTable,
+  ({ one }) => ({
+    clinic: one(clinicsTable, {
+      fields: [patientDataRequestsTable.clinicId],
+      references: [clinicsTable.id],
+    }),
+    patient: one(patientsTable, {
+      fields: [patientDataRequestsTable.patientId],
+      references: [patientsTable.id],
+    }),
+    requestedBy: one(usersTable, {
+      fields: [patientDataRequestsTable.requestedByUserId],
+      references: [usersTable.id],
+    }),
   }),
 );
@@ -0,0 +1,37 @@
+// Digits plus the usual separators ("123.456.789-09"); any other character
+// makes the CPF invalid instead of being dropped.
+const CPF_PATTERN = /^\d[\d.\-\s]*$/;
+
+export const normalizeCpf = (cpf: string) => cpf.replace(/[.\-\s]/g, "");
+
+export const formatCpf = (cpf: string) =>
+  normalizeCpf(cpf).replace(/^(\d{3})(\d{3})(\d{3})(\d{2})$/, "$1.$2.$3-$4");
+
+const getCpfCheckDigit = (digits: number[]) => {
+  const sum = digits.reduce(
+    (total, digit, index) => total + digit * (digits.length + 1 - index),
+    0,
+  );
+  const remainder = (sum * 10) % 11;
+
+  return remainder === 10 ? 0 : remainder;
+};
+
+export const isValidCpf = (cpf: string) => {
+  if (!CPF_PATTERN.test(cpf.trim())) {
+    return false;
+  }
+
+  const digits = normalizeCpf(cpf.trim()).split("").map(Number);
+
+  // Sequences like 111.111.111-11 pass the check digit math but are not
+  // valid CPFs.
+  if (digits.length !== 11 || digits.every((digit) => digit === digits[0])) {
+    return false;
+  }
+
+  const firstCheckDigit = getCpfCheckDigit(digits.slice(0, 9));
+  const secondCheckDigit = getCpfCheckDigit(digits.slice(0, 10));
+
+  return firstCheckDigit === digits[9] && secondCheckDigit === digits[10];
+};
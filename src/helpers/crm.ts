@@ -0,0 +1,19 @@
+// Digits plus the usual separators ("123.456", "123456-7"); any other
+// character makes the number invalid instead of being dropped.
+const CRM_NUMBER_PATTERN = /^\d[\d.\-\s]*$/;
+
+// Leading zeros are dropped so "012345" and "12345" count as the same CRM.
+export const normalizeCrmNumber = (crmNumber: string) =>
+  crmNumber.replace(/[.\-\s]/g, "").replace(/^0+/, "");
+
+export const isValidCrmNumber = (crmNumber: string) =>
+  CRM_NUMBER_PATTERN.test(crmNumber.trim()) &&
+  /^\d{1,8}$/.test(normalizeCrmNumber(crmNumber.trim()));
+
+export const formatCrm = (doctor: {
+  crmNumber: string | null;
+  crmState: string | null;
+}) =>
+  doctor.crmNumber && doctor.crmState
+    ? `CRM/${doctor.crmState} ${doctor.crmNumber}`
+    : null;
@@ -0,0 +1,76 @@
+// Spreadsheets exported with a Brazilian locale use ";" as the separator, so
+// the delimiter is detected from the header line.
+const detectDelimiter = (text: string) => {
+  const headerLine = text.slice(0, text.search(/\r?\n|$/));
+
+  return headerLine.split(";").length > headerLine.split(",").length
+    ? ";"
+    : ",";
+};
+
+export const parseCsv = (text: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(content);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = "";
+  let isQuoted = false;
+
+  for (let index = 0; index < content.length; index++) {
+    const char = content[index];
+
+    if (isQuoted) {
+      if (char === '"' && content[index + 1] === '"') {
+        value += '"';
+        index++;
+      } else if (char === '"') {
+        isQuoted = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      isQuoted = true;
+    } else if (char === delimiter) {
+      row.push(value);
+      value = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[index + 1] === "\n") {
+        index++;
+      }
+
+      row.push(value);
+      rows.push(row);
+      row = [];
+      value = "";
+    } else {
+      value += char;
+    }
+  }
+
+  if (value || row.length > 0) {
+    row.push(value);
+    rows.push(row);
+  }
+
+  return rows.filter((row) => row.some((value) => value.trim()));
+};
+
+// Spreadsheet apps run cells starting with these characters as formulas, so a
+// patient named "=HYPERLINK(...)" would execute when the export is opened.
+const neutralizeFormula = (value: string) =>
+  /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+
+const escapeCsvValue = (rawValue: string, delimiter: string) => {
+  const value = neutralizeFormula(rawValue);
+
+  return /["\r\n]/.test(value) || value.includes(delimiter)
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+};
+
+export const toCsv = (rows: string[][], delimiter = ";") =>
+  rows
+    .map((row) =>
+      row.map((value) => escapeCsvValue(value, delimiter)).join(delimiter),
+    )
+    .join("\r\n");
@@ -0,0 +1,23 @@
+const UNIQUE_VIOLATION_CODE = "23505";
+
+// Drizzle wraps driver errors in a DrizzleQueryError, keeping the original
+// Postgres error (with its code and constraint name) as the cause.
+export const isUniqueConstraintViolation = (
+  error: unknown,
+  constraint: string,
+): boolean => {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+
+  const { code, constraint: violatedConstraint } = error as Error & {
+    code?: string;
+    constraint?: string;
+  };
+
+  if (code === UNIQUE_VIOLATION_CODE) {
+    return violatedConstraint === constraint;
+  }
+
+  return isUniqueConstraintViolation(error.cause, constraint);
+};
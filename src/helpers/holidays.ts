@@ -0,0 +1,113 @@
+import dayjs, { Dayjs } from "dayjs";
+
+export type HolidayType = "national" | "state" | "municipal" | "clinic";
+
+export interface Holiday {
+  date: string;
+  name: string;
+  type: HolidayType;
+  clinicHolidayId?: string;
+}
+
+interface ClinicHoliday {
+  id: string;
+  type: Exclude<HolidayType, "national">;
+  name: string;
+  date: string;
+  recurring: boolean;
+}
+
+// Anonymous Gregorian algorithm (Meeus/Jones/Butcher).
+export const getEasterSunday = (year: number) => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+
+  return dayjs(new Date(year, month - 1, day));
+};
+
+const fixedNationalHolidays = [
+  { monthDay: "01-01", name: "Confraternização Universal" },
+  { monthDay: "04-21", name: "Tiradentes" },
+  { monthDay: "05-01", name: "Dia do Trabalho" },
+  { monthDay: "09-07", name: "Independência do Brasil" },
+  { monthDay: "10-12", name: "Nossa Senhora Aparecida" },
+  { monthDay: "11-02", name: "Finados" },
+  { monthDay: "11-15", name: "Proclamação da República" },
+  { monthDay: "12-25", name: "Natal" },
+];
+
+// Carnaval and Corpus Christi are officially optional days off, but clinics
+// close on them often enough that they are treated as holidays.
+const movableNationalHolidays = [
+  { daysFromEaster: -48, name: "Carnaval" },
+  { daysFromEaster: -47, name: "Carnaval" },
+  { daysFromEaster: -2, name: "Sexta-feira Santa" },
+  { daysFromEaster: 60, name: "Corpus Christi" },
+];
+
+const formatDate = (date: Dayjs) => date.format("YYYY-MM-DD");
+
+export const getNationalHolidays = (year: number): Holiday[] => {
+  const easterSunday = getEasterSunday(year);
+
+  return [
+    ...fixedNationalHolidays.map(({ monthDay, name }) => ({
+      date: `${year}-${monthDay}`,
+      name,
+    })),
+    // National holiday since 2024 (Lei 14.759/2023).
+    ...(year >= 2024
+      ? [{ date: `${year}-11-20`, name: "Dia da Consciência Negra" }]
+      : []),
+    ...movableNationalHolidays.map(({ daysFromEaster, name }) => ({
+      date: formatDate(easterSunday.add(daysFromEaster, "day")),
+      name,
+    })),
+  ].map((holiday) => ({ ...holiday, type: "national" as const }));
+};
+
+export const getHolidaysForYear = (
+  year: number,
+  clinicHolidays: ClinicHoliday[] = [],
+): Holiday[] => {
+  const clinicHolidaysInYear = clinicHolidays.flatMap((clinicHoliday) => {
+    const date = dayjs(clinicHoliday.date);
+    const occurrence = clinicHoliday.recurring ? date.year(year) : date;
+
+    // A recurring 29/02 only happens in leap years; setting the year clamps
+    // it to 28/02 otherwise, so the day must still match.
+    if (occurrence.year() !== year || occurrence.date() !== date.date()) {
+      return [];
+    }
+
+    return [
+      {
+        date: formatDate(occurrence),
+        name: clinicHoliday.name,
+        type: clinicHoliday.type,
+        clinicHolidayId: clinicHoliday.id,
+      },
+    ];
+  });
+
+  return [...getNationalHolidays(year), ...clinicHolidaysInYear].sort((a, b) =>
+    a.date.localeCompare(b.date),
+  );
+};
+
+export const findHoliday = (date: string, clinicHolidays: ClinicHoliday[]) =>
+  getHolidaysForYear(dayjs(date).year(), clinicHolidays).find(
+    (holiday) => holiday.date === date,
+  );
@@ -0,0 +1,39 @@
+export const imageExtensions = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+} as const;
+
+export type ImageContentType = keyof typeof imageExtensions;
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, index) => bytes[offset + index] === byte);
+
+// The browser-provided MIME type is only a hint, so uploads are checked
+// against the file signature.
+export const detectImageContentType = (
+  bytes: Uint8Array,
+): ImageContentType | null => {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) {
+    return "image/jpeg";
+  }
+
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return "image/png";
+  }
+
+  // "RIFF" .... "WEBP"
+  if (
+    startsWith(bytes, [0x52, 0x49, 0x46, 0x46]) &&
+    startsWith(bytes, [0x57, 0x45, 0x42, 0x50], 8)
+  ) {
+    return "image/webp";
+  }
+
+  return null;
+};
+
+export const getImageContentTypeFromExtension = (extension: string) =>
+  (Object.keys(imageExtensions) as ImageContentType[]).find(
+    (contentType) => imageExtensions[contentType] === extension,
+  ) ?? null;
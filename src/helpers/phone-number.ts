@@ -0,0 +1,55 @@
+const BRAZIL_COUNTRY_CODE = "55";
+
+const validDdds = new Set([
+  11, 12, 13, 14, 15, 16, 17, 18, 19, 21, 22, 24, 27, 28, 31, 32, 33, 34, 35,
+  37, 38, 41, 42, 43, 44, 45, 46, 47, 48, 49, 51, 53, 54, 55, 61, 62, 63, 64,
+  65, 66, 67, 68, 69, 71, 73, 74, 75, 77, 79, 81, 82, 83, 84, 85, 86, 87, 88,
+  89, 91, 92, 93, 94, 95, 96, 97, 98, 99,
+]);
+
+// Returns the DDD followed by the subscriber number, dropping the country
+// code and the trunk prefix ("0") when present.
+export const getNationalPhoneNumber = (phoneNumber: string) => {
+  const digits = phoneNumber.replace(/\D/g, "");
+
+  if (digits.length > 11 && digits.startsWith(BRAZIL_COUNTRY_CODE)) {
+    return digits.slice(BRAZIL_COUNTRY_CODE.length);
+  }
+
+  return digits.replace(/^0+/, "");
+};
+
+export const isValidPhoneNumber = (phoneNumber: string) => {
+  const nationalPhoneNumber = getNationalPhoneNumber(phoneNumber);
+  const ddd = Number(nationalPhoneNumber.slice(0, 2));
+  const subscriberNumber = nationalPhoneNumber.slice(2);
+
+  if (!validDdds.has(ddd)) {
+    return false;
+  }
+
+  const isMobile = /^9\d{8}$/.test(subscriberNumber);
+  const isLandline = /^[2-5]\d{7}$/.test(subscriberNumber);
+
+  return isMobile || isLandline;
+};
+
+export const normalizePhoneNumber = (phoneNumber: string) =>
+  `+${BRAZIL_COUNTRY_CODE}${getNationalPhoneNumber(phoneNumber)}`;
+
+// Also formats partial numbers, so it can be used while the user types.
+export const formatPhoneNumber = (phoneNumber: string) => {
+  const nationalPhoneNumber = getNationalPhoneNumber(phoneNumber).slice(0, 11);
+  const ddd = nationalPhoneNumber.slice(0, 2);
+  const subscriberNumber = nationalPhoneNumber.slice(2);
+
+  if (!subscriberNumber) {
+    return ddd && `(${ddd}`;
+  }
+
+  const prefixLength = subscriberNumber.length > 8 ? 5 : 4;
+  const prefix = subscriberNumber.slice(0, prefixLength);
+  const suffix = subscriberNumber.slice(prefixLength);
+
+  return `(${ddd}) ${prefix}${suffix && `-${suffix}`}`;
+};
@@ -0,0 +1,43 @@
+import dayjs from "dayjs";
+import timezone from "dayjs/plugin/timezone";
+import utc from "dayjs/plugin/utc";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+export const DEFAULT_CLINIC_TIME_ZONE = "America/Sao_Paulo";
+
+export const clinicTimeZones = [
+  { value: "America/Noronha", label: "Fernando de Noronha (UTC-2)" },
+  { value: "America/Sao_Paulo", label: "Horário de Brasília (UTC-3)" },
+  { value: "America/Manaus", label: "Amazonas (UTC-4)" },
+  { value: "America/Cuiaba", label: "Mato Grosso (UTC-4)" },
+  { value: "America/Rio_Branco", label: "Acre (UTC-5)" },
+];
+
+export const isClinicTimeZone = (timeZone: string) =>
+  clinicTimeZones.some((clinicTimeZone) => clinicTimeZone.value === timeZone);
+
+export const toClinicTime = (date: Date | string, timeZone: string) =>
+  dayjs(date).tz(timeZone);
+
+// Calendar day ("YYYY-MM-DD") of an instant as seen at the clinic.
+export const getClinicDate = (date: Date | string, timeZone: string) =>
+  toClinicTime(date, timeZone).format("YYYY-MM-DD");
+
+// Instant of a wall-clock time ("HH:mm" or "HH:mm:ss") on a clinic day.
+export const getClinicDateTime = (
+  date: string,
+  time: string,
+  timeZone: string,
+) => dayjs.tz(`${date} ${time}`, timeZone);
+
+export const addDaysToDate = (date: string, days: number) =>
+  dayjs(date).add(days, "day").format("YYYY-MM-DD");
+
+// Clinic days are not always 24 hours long across DST changes, so the end is
+// the next day's midnight instead of the start plus a day.
+export const getClinicDayRange = (date: string, timeZone: string) => ({
+  start: dayjs.tz(date, timeZone),
+  end: dayjs.tz(addDaysToDate(date, 1), timeZone),
+});
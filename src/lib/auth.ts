@@ -36,6 +36,8 @@ export const auth = betterAuth({
             ? {
                 id: clinic?.clinicId,
                 name: clinic?.clinic.name,
+                role: clinic?.role,
+                timeZone: clinic?.clinic.timeZone,
               }
             : undefined,
         },
@@ -0,0 +1,27 @@
+import { createLocalStorageDriver } from "@/lib/storage/local";
+
+export interface StorageDriver {
+  // Stores the file and returns the URL it can be read from.
+  upload(params: {
+    key: string;
+    body: Buffer;
+    contentType: string;
+  }): Promise<string>;
+  // Removes a file previously returned by upload. Unknown URLs are ignored.
+  remove(url: string): Promise<void>;
+}
+
+const drivers: Record<string, () => StorageDriver> = {
+  local: createLocalStorageDriver,
+};
+
+export const getStorage = (): StorageDriver => {
+  const driverName = process.env.STORAGE_DRIVER ?? "local";
+  const createDriver = drivers[driverName];
+
+  if (!createDriver) {
+    throw new Error(`Driver de armazenamento desconhecido: ${driverName}`);
+  }
+
+  return createDriver();
+};
@@ -0,0 +1,50 @@
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import type { StorageDriver } from "@/lib/storage";
+
+// Files are served by the /api/uploads route, since Next.js does not serve
+// files added to /public after the build.
+export const LOCAL_STORAGE_URL_PREFIX = "/api/uploads/";
+
+const getRootDirectory = () =>
+  path.resolve(process.env.LOCAL_STORAGE_PATH ?? "uploads");
+
+const resolveKey = (key: string) => {
+  const rootDirectory = getRootDirectory();
+  const filePath = path.resolve(rootDirectory, key);
+
+  if (!filePath.startsWith(rootDirectory + path.sep)) {
+    throw new Error("Caminho de arquivo inválido");
+  }
+
+  return filePath;
+};
+
+export const readLocalFile = async (key: string) => {
+  try {
+    return await readFile(resolveKey(key));
+  } catch {
+    return null;
+  }
+};
+
+export const createLocalStorageDriver = (): StorageDriver => ({
+  upload: async ({ key, body }) => {
+    const filePath = resolveKey(key);
+
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, body);
+
+    return `${LOCAL_STORAGE_URL_PREFIX}${key}`;
+  },
+  remove: async (url) => {
+    if (!url.startsWith(LOCAL_STORAGE_URL_PREFIX)) {
+      return;
+    }
+
+    await rm(resolveKey(url.slice(LOCAL_STORAGE_URL_PREFIX.length)), {
+      force: true,
+    });
+  },
+});